@@ -6,21 +6,37 @@ import {
   TabsTrigger,
 } from "@/src/components/ui/tabs";
 import { type LiveFolderConfig } from "@/src/config-handler";
-import { AlertTriangle, Check, Info, Settings2, X } from "lucide-react";
+import {
+  AlertTriangle,
+  Check,
+  GitPullRequest,
+  Info,
+  Settings2,
+  X,
+} from "lucide-react";
 import { sendMessage } from "webext-bridge/popup";
 import * as React from "react";
 import { SettingsForm } from "@/src/components/settings-form";
+import { SettingsTransfer } from "@/src/components/settings-transfer";
+import { PullRequestList } from "@/src/components/pull-request-list";
+import { SyncStatus } from "@/src/components/sync-status";
 import browser from "webextension-polyfill";
 
 export function Popup() {
   const [initialConfig, setInitialConfig] =
     React.useState<LiveFolderConfig | null>(null);
   const [isAuthenticated, setIsAuthenticated] = React.useState<boolean>(false);
+  const [hostAuthStates, setHostAuthStates] = React.useState<
+    Record<string, boolean>
+  >({ "github.com": false });
+  // NOTE: Remounts the settings form after an import replaced its values
+  const [settingsFormKey, setSettingsFormKey] = React.useState(0);
 
   React.useEffect(() => {
     (async () => {
       const state = await getAuthState();
       setIsAuthenticated(state?.isAuthenticated ?? false);
+      if (state?.hosts) setHostAuthStates(state.hosts);
 
       const config = await getInitialConfig();
       setInitialConfig(config ?? null);
@@ -36,6 +52,16 @@ export function Popup() {
     }
   }
 
+  const unauthenticatedHosts = Object.keys(hostAuthStates).filter(
+    (host) => !hostAuthStates[host],
+  );
+
+  async function reloadConfig() {
+    const config = await getInitialConfig();
+    setInitialConfig(config ?? null);
+    setSettingsFormKey((key) => key + 1);
+  }
+
   async function getInitialConfig() {
     try {
       const response = await sendMessage("GET_CONFIG", null, "background");
@@ -65,37 +91,70 @@ export function Popup() {
               <Info className="h-4 w-4" />
               <span className="sr-only">Information</span>
             </TabsTrigger>
+            <TabsTrigger value="pull-requests">
+              <GitPullRequest className="h-4 w-4" />
+              <span className="sr-only">Pull Requests</span>
+            </TabsTrigger>
             <TabsTrigger value="settings">
               <Settings2 className="h-4 w-4" />
               <span className="sr-only">Settings</span>
             </TabsTrigger>
           </TabsList>
           <TabsContent value="info">
-            {isAuthenticated ? (
-              <div className="inline-flex w-full items-start gap-x-3 rounded-sm bg-primary/40 p-2 text-xs font-medium">
-                <Check className="h-3 w-3" />
-                Everything is set up correctly!
-              </div>
-            ) : (
-              <div className="inline-flex w-full items-start gap-x-3 rounded-sm bg-destructive/40 p-2 text-xs">
-                <AlertTriangle className="h-3 w-3 shrink-0" />
-                <span>
-                  You need to
-                  <a
-                    href="https://github.com/login"
-                    target="_blank"
-                    referrerPolicy="no-referrer"
-                    className="mx-1 text-primary underline decoration-primary underline-offset-1"
-                  >
-                    login
-                  </a>
-                  to your Github account to track pull requests.
-                </span>
-              </div>
-            )}
+            <div className="flex flex-col gap-y-2">
+              <SyncStatus />
+              {isAuthenticated && unauthenticatedHosts.length === 0 && (
+                <div className="inline-flex w-full items-start gap-x-3 rounded-sm bg-primary/40 p-2 text-xs font-medium">
+                  <Check className="h-3 w-3" />
+                  Everything is set up correctly!
+                </div>
+              )}
+              {unauthenticatedHosts.map((host) => (
+                <div
+                  key={host}
+                  className="inline-flex w-full items-start gap-x-3 rounded-sm bg-destructive/40 p-2 text-xs"
+                >
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  {initialConfig?.dataSource === "api" ? (
+                    <span>
+                      Your personal access token for {host} was rejected. Check
+                      it and the host access in the settings to track pull
+                      requests.
+                    </span>
+                  ) : (
+                    <span>
+                      You need to
+                      <a
+                        href={`https://${host}/login`}
+                        target="_blank"
+                        referrerPolicy="no-referrer"
+                        className="mx-1 text-primary underline decoration-primary underline-offset-1"
+                      >
+                        login
+                      </a>
+                      to your {host} account to track pull requests.
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+          <TabsContent value="pull-requests">
+            <PullRequestList sendMessage={sendMessage} />
           </TabsContent>
           <TabsContent value="settings">
-            <SettingsForm defaultValues={initialConfig} />
+            <SettingsForm key={settingsFormKey} defaultValues={initialConfig} />
+            <details className="mt-4 border-t border-t-border pt-2">
+              <summary className="cursor-pointer text-sm font-medium">
+                Import & Export
+              </summary>
+              <div className="mt-2">
+                <SettingsTransfer
+                  config={initialConfig}
+                  onImported={reloadConfig}
+                />
+              </div>
+            </details>
           </TabsContent>
         </Tabs>
       </main>
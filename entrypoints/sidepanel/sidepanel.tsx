@@ -0,0 +1,16 @@
+import { sendMessage } from "webext-bridge/options";
+import { PullRequestList } from "@/src/components/pull-request-list";
+
+// NOTE: Uses the "options" endpoint, so it can be open next to the popup
+export function SidePanel() {
+  return (
+    <div className="flex h-screen flex-col bg-background px-4 py-2">
+      <header className="mb-2 border-b border-b-border py-1">
+        <h1 className="text-xl font-bold">live folder</h1>
+      </header>
+      <main className="min-h-0 flex-1">
+        <PullRequestList sendMessage={sendMessage} fullHeight />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { type BadgeMode } from "./config-handler";
+
+export class BadgeHandler {
+  private readonly _debug: boolean;
+
+  private readonly _COLORS = {
+    COUNT: "#1f6feb",
+    WARNING: "#d29922",
+  } as const;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+  }
+
+  // NOTE: Firefox builds use manifest v2, which only has browserAction
+  private get _action() {
+    return browser.action ?? browser.browserAction;
+  }
+
+  /**
+   * Shows the count of the mode, or a warning when pull requests can't be
+   * read completely. The tooltip explains the badge.
+   */
+  public async update({
+    mode,
+    trackedCount,
+    unseenCount,
+    warning,
+  }: {
+    mode: BadgeMode;
+    trackedCount: number;
+    unseenCount: number;
+    warning: string | null;
+  }) {
+    try {
+      if (warning) {
+        await this._setBadge({
+          text: "!",
+          color: this._COLORS.WARNING,
+          title: `live folder: ${warning}`,
+        });
+        return;
+      }
+
+      const count = mode === "unseen" ? unseenCount : trackedCount;
+      await this._setBadge({
+        text: mode === "off" || count === 0 ? "" : count.toString(),
+        color: this._COLORS.COUNT,
+        title: `live folder: ${trackedCount} pull requests, ${unseenCount} unseen`,
+      });
+    } catch (error) {
+      console.error("[UPDATE-BADGE] Error updating badge:", error);
+    }
+  }
+
+  private async _setBadge({
+    text,
+    color,
+    title,
+  }: {
+    text: string;
+    color: string;
+    title: string;
+  }) {
+    await this._action.setBadgeText({ text });
+    await this._action.setBadgeBackgroundColor({ color });
+    await this._action.setTitle({ title });
+    if (this._debug) console.log("[UPDATE-BADGE]", text || "(empty)", title);
+  }
+}
@@ -0,0 +1,101 @@
+import { type LiveFolder } from "./live-folder";
+import { getSnoozeRequest } from "./snooze";
+
+// NOTE: Keep the names in sync with the commands of the manifest (wxt.config.ts)
+const COMMANDS = {
+  SYNC_NOW: "sync-now",
+  NEXT_PR: "open-next-pull-request",
+  PREVIOUS_PR: "open-previous-pull-request",
+  FOCUS_GROUP: "focus-live-folder",
+  SNOOZE_PR: "snooze-pull-request",
+} as const;
+
+export class CommandHandler {
+  private readonly _debug: boolean;
+  private readonly _lf: LiveFolder;
+
+  constructor(lf: LiveFolder, { debug }: { debug: boolean }) {
+    this._lf = lf;
+    this._debug = debug;
+
+    browser.commands.onCommand.addListener((command) =>
+      this._onCommand(command),
+    );
+  }
+
+  private async _onCommand(command: string) {
+    try {
+      if (this._debug) console.log("[COMMAND]", command);
+
+      switch (command) {
+        case COMMANDS.SYNC_NOW:
+          await this._lf.syncFolder();
+          break;
+        case COMMANDS.NEXT_PR:
+          await this._openQueuedPullRequest(1);
+          break;
+        case COMMANDS.PREVIOUS_PR:
+          await this._openQueuedPullRequest(-1);
+          break;
+        case COMMANDS.FOCUS_GROUP:
+          await this._lf.focusNextTabGroup();
+          break;
+        case COMMANDS.SNOOZE_PR:
+          await this._snoozeActivePullRequest();
+          break;
+      }
+    } catch (error) {
+      console.error("[COMMAND] Error handling", command, error);
+    }
+  }
+
+  private async _getActiveTab() {
+    const [tab] = await browser.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    return tab;
+  }
+
+  /**
+   * Steps through the tracked pull requests which aren't snoozed, in the
+   * order of the folders and their sort order. Starts at either end outside
+   * of the queue.
+   */
+  private async _openQueuedPullRequest(step: 1 | -1) {
+    const { pullRequests } = await this._lf.getTrackedPullRequests();
+    const queue = pullRequests.filter((pr) => !pr.snooze).map((pr) => pr.url);
+    if (queue.length === 0) {
+      if (this._debug) console.log("[COMMAND] The queue is empty");
+      return;
+    }
+
+    const activeTab = await this._getActiveTab();
+    const activeUrl = activeTab?.url && getPullRequestBaseUrl(activeTab.url);
+    const index = activeUrl ? queue.indexOf(activeUrl) : -1;
+    const nextIndex =
+      index === -1
+        ? step === 1
+          ? 0
+          : queue.length - 1
+        : (index + step + queue.length) % queue.length;
+
+    await this._lf.openPullRequests([queue[nextIndex]]);
+  }
+
+  private async _snoozeActivePullRequest() {
+    const activeTab = await this._getActiveTab();
+    const url = activeTab?.url && getPullRequestBaseUrl(activeTab.url);
+    if (!url) {
+      if (this._debug) console.log("[COMMAND] No pull request to snooze");
+      return;
+    }
+    // NOTE: Without update times it would never run out
+    await this._lf.snoozePullRequest(
+      url,
+      this._lf.providesUpdateTimes
+        ? { type: "update" }
+        : getSnoozeRequest("tomorrow"),
+    );
+  }
+}
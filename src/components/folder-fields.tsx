@@ -0,0 +1,613 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { PrNamePreview, PrNameTokenList } from "./pr-name-preview";
+import { QueryPreview } from "./query-preview";
+import { validateSearchQuery } from "@/src/search-query";
+import { validatePrNameTemplate } from "@/src/pr-name-template";
+import { type PrDataSource } from "@/src/config-handler";
+import {
+  BOOKMARK_GROUPINGS,
+  PR_FILTERS,
+  PR_SORT_ORDERS,
+  TAB_GROUP_COLORS,
+} from "@/src/settings-schema";
+import { Plus, Trash2 } from "lucide-react";
+
+const PR_FILTER_OPTIONS = [
+  { value: "both", label: "Assigned to me & Review requested" },
+  { value: "assigned", label: "Assigned to me only" },
+  { value: "review-requested", label: "Review requested only" },
+  { value: "none", label: "Custom queries only" },
+] as const;
+
+const GROUP_BY_OPTIONS = [
+  { value: "none", label: "No subfolders" },
+  { value: "organization", label: "By organization" },
+  { value: "repository", label: "By repository" },
+  { value: "source", label: "By source (filter or custom query)" },
+] as const;
+
+const SORT_ORDER_OPTIONS = [
+  { value: "none", label: "As found" },
+  { value: "repository", label: "By repository" },
+  { value: "number", label: "By number, newest first" },
+  { value: "updated", label: "By last update, most recent first" },
+  { value: "age", label: "By age, oldest first" },
+  { value: "review-requested", label: "Review requested first" },
+  { value: "custom", label: "Custom priority" },
+] as const;
+
+export const folderSchema = z
+  .object({
+    key: z.string(),
+    name: z
+      .string({
+        required_error: "Name is required",
+      })
+      .trim()
+      .min(1, { message: "Name is required" })
+      .max(200, { message: "Name is too long" }),
+    prNameFormat: z
+      .string({
+        required_error: "Name format is required",
+      })
+      .trim()
+      .min(1, { message: "Name format is required" })
+      .max(200, { message: "Name format is too long" })
+      .superRefine((format, ctx) => {
+        const error = validatePrNameTemplate(format);
+        if (error) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+        }
+      }),
+    refreshInterval: z.coerce
+      .number({
+        required_error: "Refresh interval is required",
+      })
+      .int({
+        message: "Refresh interval must a whole number",
+      })
+      .positive({
+        message: "Refresh interval must be positive",
+      })
+      .min(1, { message: "Refresh interval is required" }),
+    tabGroupColor: z.enum(TAB_GROUP_COLORS).optional(),
+    prFilter: z.enum(PR_FILTERS),
+    groupBy: z.enum(BOOKMARK_GROUPINGS),
+    sortOrder: z.enum(PR_SORT_ORDERS),
+    sortPriority: z.string().max(500, { message: "Priority is too long" }),
+    notifySources: z.array(z.string()),
+    headerLinks: z.array(
+      z.object({
+        title: z
+          .string()
+          .trim()
+          .min(1, { message: "Title is required" })
+          .max(200, { message: "Title is too long" }),
+        url: z
+          .string()
+          .trim()
+          .url({ message: "Enter a full URL, e.g. https://example.com" }),
+      }),
+    ),
+    organizationFilter: z.string().optional(),
+    customQueries: z.array(
+      z.object({
+        id: z.string(),
+        name: z
+          .string()
+          .trim()
+          .min(1, { message: "Name is required" })
+          .max(100, { message: "Name is too long" }),
+        query: z
+          .string()
+          .trim()
+          .superRefine((query, ctx) => {
+            const error = validateSearchQuery(query);
+            if (error) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+            }
+          }),
+      }),
+    ),
+  })
+  .superRefine((data, ctx) => {
+    if (data.prFilter === "none" && data.customQueries.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Add a custom query or pick another option",
+        path: ["prFilter"],
+      });
+    }
+  });
+
+export type FolderSchema = z.infer<typeof folderSchema>;
+
+const isChrome = import.meta.env.BROWSER === "chrome";
+
+/**
+ * Fields of a single live folder definition, rendered inside the settings form.
+ */
+export function FolderFields({
+  index,
+  pending,
+}: {
+  index: number;
+  pending: boolean;
+}) {
+  const form = useFormContext<{
+    folders: FolderSchema[];
+    dataSource: PrDataSource;
+  }>();
+  const customQueries = useFieldArray({
+    control: form.control,
+    name: `folders.${index}.customQueries`,
+  });
+  const headerLinks = useFieldArray({
+    control: form.control,
+    name: `folders.${index}.headerLinks`,
+  });
+  const prFilter = form.watch(`folders.${index}.prFilter`);
+  const sortOrder = form.watch(`folders.${index}.sortOrder`);
+  const dataSource = form.watch("dataSource");
+  const queries = form.watch(`folders.${index}.customQueries`) ?? [];
+  const notifyOptions = [
+    ...(prFilter === "both" || prFilter === "assigned"
+      ? [{ id: "assigned", label: "Assigned to me" }]
+      : []),
+    ...(prFilter === "both" || prFilter === "review-requested"
+      ? [{ id: "review-requested", label: "Review requested" }]
+      : []),
+    ...queries.map((query) => ({
+      id: query.id,
+      label: query.name || "Unnamed query",
+    })),
+  ];
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <FormField
+        control={form.control}
+        name={`folders.${index}.name`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{isChrome ? "Tab Group Name" : "Folder Name"}</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="Pull Requests"
+                disabled={pending}
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {isChrome && (
+        <FormField
+          control={form.control}
+          name={`folders.${index}.tabGroupColor`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tab Group Color</FormLabel>
+              <FormControl>
+                <div className="flex gap-2">
+                  {TAB_GROUP_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      disabled={pending}
+                      onClick={() => field.onChange(color)}
+                      className={`h-8 w-8 rounded-md border-2 transition-all ${
+                        field.value === color
+                          ? "scale-110 border-primary"
+                          : "border-transparent hover:scale-105"
+                      }`}
+                      style={{
+                        backgroundColor:
+                          color === "grey"
+                            ? "#5f6368"
+                            : color === "cyan"
+                              ? "#06b6d4"
+                              : color,
+                      }}
+                      title={color}
+                    />
+                  ))}
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      <FormField
+        control={form.control}
+        name={`folders.${index}.prFilter`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Pull Requests to Track</FormLabel>
+            <FormControl>
+              <select
+                {...field}
+                disabled={pending}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {PR_FILTER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="flex flex-col gap-y-2">
+        <FormLabel>Custom Queries</FormLabel>
+        {customQueries.fields.map((item, queryIndex) => (
+          <div
+            key={item.id}
+            className="flex flex-col gap-y-1 rounded-md border border-input p-2"
+          >
+            <div className="flex items-start gap-x-1">
+              <FormField
+                control={form.control}
+                name={`folders.${index}.customQueries.${queryIndex}.name`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        placeholder="Backend reviews"
+                        disabled={pending}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="shrink-0"
+                title="Remove query"
+                disabled={pending}
+                onClick={() => customQueries.remove(queryIndex)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <FormField
+              control={form.control}
+              name={`folders.${index}.customQueries.${queryIndex}.query`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      placeholder="is:open team-review-requested:myorg/backend"
+                      disabled={pending}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <QueryPreview query={field.value ?? ""} />
+                </FormItem>
+              )}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={pending}
+          onClick={() =>
+            customQueries.append({
+              id: crypto.randomUUID(),
+              name: "",
+              query: "",
+            })
+          }
+        >
+          <Plus className="h-4 w-4" />
+          Add query
+        </Button>
+        <FormDescription className="text-xs leading-tight">
+          GitHub search queries tracked in addition to the option above, e.g.
+          &quot;is:open author:@me&quot; or &quot;mentions:@me&quot;.
+        </FormDescription>
+      </div>
+      <FormField
+        control={form.control}
+        name={`folders.${index}.organizationFilter`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Organizations (optional)</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="e.g., myorg, company"
+                disabled={pending}
+                {...field}
+              />
+            </FormControl>
+            <FormDescription className="text-xs leading-tight">
+              Leave empty to show all organizations, or enter comma-separated
+              organization names to filter.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="flex flex-col gap-y-2">
+        <FormLabel>Header Links</FormLabel>
+        {headerLinks.fields.map((item, linkIndex) => (
+          <div
+            key={item.id}
+            className="flex flex-col gap-y-1 rounded-md border border-input p-2"
+          >
+            <div className="flex items-start gap-x-1">
+              <FormField
+                control={form.control}
+                name={`folders.${index}.headerLinks.${linkIndex}.title`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        placeholder="Team dashboard"
+                        disabled={pending}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="shrink-0"
+                title="Remove link"
+                disabled={pending}
+                onClick={() => headerLinks.remove(linkIndex)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <FormField
+              control={form.control}
+              name={`folders.${index}.headerLinks.${linkIndex}.url`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      placeholder="https://example.com/dashboard"
+                      disabled={pending}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={pending}
+          onClick={() => headerLinks.append({ title: "", url: "" })}
+        >
+          <Plus className="h-4 w-4" />
+          Add link
+        </Button>
+        <FormDescription className="text-xs leading-tight">
+          Always kept at the top of the {isChrome ? "tab group" : "folder"}.
+          Anything else you add to it yourself is left alone.
+        </FormDescription>
+      </div>
+      {!isChrome && (
+        <FormField
+          control={form.control}
+          name={`folders.${index}.groupBy`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Subfolders</FormLabel>
+              <FormControl>
+                <select
+                  {...field}
+                  disabled={pending}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {GROUP_BY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </FormControl>
+              <FormDescription className="text-xs leading-tight">
+                Sorts the pull requests into subfolders. A pull request found by
+                several sources is added to each of them.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      <FormField
+        control={form.control}
+        name={`folders.${index}.sortOrder`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sort Order</FormLabel>
+            <FormControl>
+              <select
+                {...field}
+                disabled={pending}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {SORT_ORDER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </FormControl>
+            <FormDescription className="text-xs leading-tight">
+              Order of the pull request {isChrome ? "tabs" : "bookmarks"},
+              applied on every sync.
+              {sortOrder === "updated" &&
+                dataSource === "html" &&
+                " The GitHub pages don't show update times, pull requests are sorted by when they were opened instead."}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {sortOrder === "custom" && (
+        <FormField
+          control={form.control}
+          name={`folders.${index}.sortPriority`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Priority</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g., myorg/api, label:urgent, author:octocat"
+                  disabled={pending}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription className="text-xs leading-tight">
+                Comma-separated repositories, labels and authors. Pull requests
+                matching an earlier one come first, the others last.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      {notifyOptions.length > 0 && (
+        <FormField
+          control={form.control}
+          name={`folders.${index}.notifySources`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notifications</FormLabel>
+              <div className="flex flex-col gap-y-1">
+                {notifyOptions.map((option) => (
+                  <label
+                    key={option.id}
+                    className="flex items-center gap-x-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      disabled={pending}
+                      checked={field.value?.includes(option.id) ?? false}
+                      onChange={(event) =>
+                        field.onChange(
+                          event.target.checked
+                            ? [...(field.value ?? []), option.id]
+                            : (field.value ?? []).filter(
+                                (id) => id !== option.id,
+                              ),
+                        )
+                      }
+                      className="h-4 w-4 accent-primary"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <FormDescription className="text-xs leading-tight">
+                Shows a desktop notification when one of these finds a new pull
+                request.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+      <FormField
+        control={form.control}
+        name={`folders.${index}.refreshInterval`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Refresh Interval</FormLabel>
+            <FormControl>
+              <Input
+                disabled={pending}
+                type="number"
+                min="1"
+                step="1"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              Refresh interval of pull requests in minutes.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`folders.${index}.prNameFormat`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Pull Request Name Format</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="[%repository%] %name%"
+                disabled={pending}
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+            <div className="text-[0.8rem] text-xs text-muted-foreground">
+              The pull request names will look like this:
+              <PrNamePreview prName={field.value} />
+            </div>
+            <details className="text-xs leading-tight text-muted-foreground">
+              <summary className="cursor-pointer">Format syntax</summary>
+              <div className="mt-1 flex flex-col gap-y-1">
+                <PrNameTokenList />
+                <p>
+                  <code>%name:40%</code> truncates a value to 40 characters.
+                  <code> {"{draft:[WIP] }"}</code> only adds the text when the
+                  value is set, <code>{"{!draft:...}"}</code> when it isn&apos;t
+                  and <code>{"{review=approved:...}"}</code> when it matches.
+                  Prefix <code>%</code>, <code>{"{"}</code> or{" "}
+                  <code>{"}"}</code> with <code>\</code> to use them as text.
+                </p>
+                <p>
+                  <code>{"{status:%status% }[%repository%] %name%"}</code> marks
+                  new and updated pull requests.
+                </p>
+              </div>
+            </details>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
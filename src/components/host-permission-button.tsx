@@ -0,0 +1,43 @@
+import * as React from "react";
+import browser from "webextension-polyfill";
+import { KeyRound } from "lucide-react";
+import { Button } from "./ui/button";
+import { getHostOrigin } from "@/utils/utils";
+
+export function HostPermissionButton({ host }: { host: string }) {
+  const [granted, setGranted] = React.useState<boolean | null>(null);
+
+  React.useEffect(() => {
+    if (!host) return;
+    browser.permissions
+      .contains({ origins: [getHostOrigin(host)] })
+      .then(setGranted)
+      .catch(() => setGranted(false));
+  }, [host]);
+
+  // NOTE: permissions.request has to be called directly from the click handler
+  function requestPermission() {
+    browser.permissions
+      .request({ origins: [getHostOrigin(host)] })
+      .then(setGranted)
+      .catch((error) => {
+        console.error("Error requesting host permission:", error);
+      });
+  }
+
+  if (!host || granted !== false) return null;
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant="outline"
+      className="shrink-0 gap-1"
+      title={`Allow access to ${host}`}
+      onClick={requestPermission}
+    >
+      <KeyRound className="h-4 w-4" />
+      Grant access
+    </Button>
+  );
+}
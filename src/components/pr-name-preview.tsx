@@ -1,36 +1,82 @@
+import {
+  formatPrName,
+  type NamedPullRequest,
+  parsePrNameTemplate,
+  PR_NAME_TOKENS,
+} from "@/src/pr-name-template";
 import { Badge } from "./ui/badge";
 
+const HOUR = 60 * 60 * 1000;
+
+const SAMPLE_PULL_REQUESTS: NamedPullRequest[] = [
+  {
+    host: "github.com",
+    name: "Add dark mode to the settings page",
+    url: "https://github.com/acme/web-app/pull/1287",
+    number: 1287,
+    repository_name: "web-app",
+    organization: "acme",
+    sources: ["review-requested"],
+    author: "octocat",
+    isDraft: false,
+    ciStatus: "success",
+    labels: ["enhancement", "ui"],
+    commentCount: 4,
+    reviewState: "review_required",
+    createdAt: Date.now() - 3 * 24 * HOUR,
+    updatedAt: Date.now() - 2 * HOUR,
+    status: "new",
+  },
+  {
+    host: "github.com",
+    name: "Migrate the billing service to the new payment provider API",
+    url: "https://github.com/acme/billing/pull/42",
+    number: 42,
+    repository_name: "billing",
+    organization: "acme",
+    sources: ["assigned"],
+    author: "hubot",
+    isDraft: true,
+    ciStatus: "failure",
+    labels: [],
+    commentCount: 0,
+    reviewState: "changes_requested",
+    createdAt: Date.now() - 12 * 24 * HOUR,
+    updatedAt: Date.now() - 20 * HOUR,
+    status: "updated",
+  },
+];
+
 export function PrNamePreview({ prName }: { prName: string }) {
-  function renderPrName() {
-    if (!prName) return null;
-    const parts = prName.split(/(%(repository|name|number)%)/g);
-    return parts.map((part, idx) => {
-      if (part === "%repository%") {
-        return (
-          <Badge key={idx} variant="outline" className="mx-1">
-            Repository
-          </Badge>
-        );
-      } else if (part === "%name%") {
-        return (
-          <Badge key={idx} variant="outline" className="mx-1">
-            Name
-          </Badge>
-        );
-      } else if (part === "%number%") {
-        return (
-          <Badge key={idx} variant="outline" className="mx-1">
-            Number
+  if (!prName) return null;
+
+  const { errors } = parsePrNameTemplate(prName);
+  if (errors.length > 0) return null;
+
+  return (
+    <ul className="my-1 flex flex-col gap-y-1">
+      {SAMPLE_PULL_REQUESTS.map((pr) => (
+        <li key={pr.url}>
+          <Badge variant="outline" className="max-w-full font-normal">
+            <span className="truncate">
+              {formatPrName({ format: prName, pr })}
+            </span>
           </Badge>
-        );
-      } else if (
-        part !== "repository" &&
-        part !== "name" &&
-        part !== "number"
-      ) {
-        return part;
-      }
-    });
-  }
-  return <div>{renderPrName()}</div>;
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function PrNameTokenList() {
+  return (
+    <ul className="grid grid-cols-[auto_1fr] gap-x-2">
+      {Object.entries(PR_NAME_TOKENS).map(([token, description]) => (
+        <li key={token} className="contents">
+          <code>%{token}%</code>
+          <span>{description}</span>
+        </li>
+      ))}
+    </ul>
+  );
 }
@@ -0,0 +1,593 @@
+import * as React from "react";
+import browser from "webextension-polyfill";
+import { type sendMessage as bridgeSendMessage } from "webext-bridge/popup";
+import {
+  BellOff,
+  Eye,
+  ExternalLink,
+  Loader2,
+  MessageSquare,
+  PinOff,
+  Undo2,
+} from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/utils/utils";
+import { type TrackedPullRequest } from "@/src/pull-request-store";
+import { type RecentlyRemovedPullRequest } from "@/src/live-folder";
+import { matchesPullRequestSearch } from "@/src/pull-request-search";
+import { PULL_REQUEST_UPDATES_PORT } from "@/src/update-handler";
+import { CI_EMOJI, REVIEW_EMOJI, formatAge } from "@/src/pr-name-template";
+import {
+  describeSnooze,
+  getSnoozePresets,
+  getSnoozeRequest,
+  type SnoozePreset,
+  type SnoozeRequest,
+} from "@/src/snooze";
+
+type PullRequestsState = {
+  pullRequests: TrackedPullRequest[];
+  recentlyRemoved: RecentlyRemovedPullRequest[];
+  lastUpdate: number | null;
+  updateTimes: boolean;
+};
+
+// NOTE: The popup and the side panel are different webext-bridge endpoints
+export type SendMessage = typeof bridgeSendMessage;
+
+type Filters = {
+  unseenOnly: boolean;
+  hideDrafts: boolean;
+  folder: string; // empty for all folders
+};
+
+// NOTE: Focuses the tab of a PR if it is open already, e.g. in a tab group
+async function openPullRequest(url: string, active = true) {
+  const [tab] = await browser.tabs.query({ url });
+  if (tab?.id !== undefined) {
+    if (active) await browser.tabs.update(tab.id, { active: true });
+    return;
+  }
+  await browser.tabs.create({ url, active });
+}
+
+export function PullRequestList({
+  sendMessage,
+  fullHeight = false,
+}: {
+  sendMessage: SendMessage;
+  fullHeight?: boolean;
+}) {
+  const [state, setState] = React.useState<PullRequestsState | null>(null);
+  const [search, setSearch] = React.useState("");
+  const [filters, setFilters] = React.useState<Filters>({
+    unseenOnly: false,
+    hideDrafts: false,
+    folder: "",
+  });
+
+  const loadPullRequests = React.useCallback(async () => {
+    try {
+      setState(await sendMessage("GET_PULL_REQUESTS", null, "background"));
+    } catch (error) {
+      console.error("Error getting pull requests:", error);
+      setState({
+        pullRequests: [],
+        recentlyRemoved: [],
+        lastUpdate: null,
+        updateTimes: false,
+      });
+    }
+  }, [sendMessage]);
+
+  React.useEffect(() => {
+    loadPullRequests();
+  }, [loadPullRequests]);
+
+  // NOTE: The background pushes changes, e.g. after a sync, over a port
+  React.useEffect(() => {
+    const port = browser.runtime.connect({ name: PULL_REQUEST_UPDATES_PORT });
+    port.onMessage.addListener(() => {
+      loadPullRequests();
+    });
+    return () => port.disconnect();
+  }, [loadPullRequests]);
+
+  async function onSnooze(url: string, snooze: SnoozeRequest | null) {
+    try {
+      const { success } = await sendMessage(
+        "SNOOZE_PULL_REQUEST",
+        { url, snooze },
+        "background",
+      );
+      if (!success) console.error("Failed to snooze pull request:", url);
+    } catch (error) {
+      console.error("Error snoozing pull request:", error);
+    }
+    await loadPullRequests();
+  }
+
+  async function onUnpin(url: string) {
+    try {
+      const { success } = await sendMessage(
+        "PIN_PULL_REQUEST",
+        { url, folderKey: null },
+        "background",
+      );
+      if (!success) console.error("Failed to unpin pull request:", url);
+    } catch (error) {
+      console.error("Error unpinning pull request:", error);
+    }
+    await loadPullRequests();
+  }
+
+  async function onRestore({ pr, folderKey }: RecentlyRemovedPullRequest) {
+    try {
+      const { success } = await sendMessage(
+        "RESTORE_PULL_REQUEST",
+        { url: pr.url, folderKey },
+        "background",
+      );
+      if (!success) console.error("Failed to restore pull request:", pr.url);
+    } catch (error) {
+      console.error("Error restoring pull request:", error);
+    }
+    await loadPullRequests();
+  }
+
+  async function onMarkSeen(url: string) {
+    try {
+      const { success } = await sendMessage("MARK_SEEN", { url }, "background");
+      if (!success) console.error("Failed to mark pull request as seen:", url);
+    } catch (error) {
+      console.error("Error marking pull request as seen:", error);
+    }
+    await loadPullRequests();
+  }
+
+  const folderNames = React.useMemo(
+    () =>
+      [...new Set(state?.pullRequests.flatMap((pr) => pr.folders))].sort(
+        (a, b) => a.localeCompare(b),
+      ),
+    [state],
+  );
+
+  const matches = React.useCallback(
+    (pr: TrackedPullRequest) =>
+      matchesPullRequestSearch(pr, search) &&
+      (!filters.unseenOnly || pr.status !== null) &&
+      (!filters.hideDrafts || !pr.isDraft) &&
+      (!filters.folder || pr.folders.includes(filters.folder)),
+    [search, filters],
+  );
+
+  const filtered = React.useMemo(
+    () => (state?.pullRequests ?? []).filter((pr) => !pr.snooze && matches(pr)),
+    [state, matches],
+  );
+
+  const snoozed = React.useMemo(
+    () => (state?.pullRequests ?? []).filter((pr) => pr.snooze && matches(pr)),
+    [state, matches],
+  );
+
+  const recentlyRemoved = React.useMemo(
+    () =>
+      (state?.recentlyRemoved ?? []).filter(
+        (entry) =>
+          matchesPullRequestSearch(
+            { ...entry.pr, folders: [entry.folder] },
+            search,
+          ) &&
+          (!filters.folder || entry.folder === filters.folder),
+      ),
+    [state, search, filters],
+  );
+
+  const repositories = React.useMemo(() => {
+    const groups = new Map<string, TrackedPullRequest[]>();
+    for (const pr of filtered) {
+      const repository = `${pr.organization}/${pr.repository_name}`;
+      groups.set(repository, [...(groups.get(repository) ?? []), pr]);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [filtered]);
+
+  async function openAll() {
+    for (const pr of filtered) {
+      await openPullRequest(pr.url, false);
+    }
+  }
+
+  if (!state) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-y-2", fullHeight && "h-full")}>
+      <div className="flex gap-x-2">
+        <Input
+          autoFocus
+          placeholder="Search pull requests"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-10 shrink-0 gap-1"
+          disabled={filtered.length === 0}
+          title="Open all listed pull requests in tabs"
+          onClick={openAll}
+        >
+          <ExternalLink className="h-4 w-4" />
+          Open all
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <FilterToggle
+          active={filters.unseenOnly}
+          onToggle={(unseenOnly) => setFilters({ ...filters, unseenOnly })}
+        >
+          New & updated
+        </FilterToggle>
+        <FilterToggle
+          active={filters.hideDrafts}
+          onToggle={(hideDrafts) => setFilters({ ...filters, hideDrafts })}
+        >
+          No drafts
+        </FilterToggle>
+        {folderNames.length > 1 && (
+          <select
+            value={filters.folder}
+            aria-label="Folder"
+            onChange={(event) =>
+              setFilters({ ...filters, folder: event.target.value })
+            }
+            className="h-6 rounded-md border border-input bg-background px-1 text-xs"
+          >
+            <option value="">All folders</option>
+            {folderNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {state.pullRequests.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No pull requests are tracked yet.
+        </p>
+      ) : (
+        filtered.length === 0 &&
+        snoozed.length === 0 &&
+        recentlyRemoved.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No pull requests match the search and filters.
+          </p>
+        )
+      )}
+      <div
+        className={cn(
+          "flex flex-col gap-y-3 overflow-y-auto",
+          fullHeight ? "min-h-0 flex-1" : "max-h-96",
+        )}
+      >
+        {repositories.map(([repository, pullRequests]) => (
+          <section key={repository} className="flex flex-col gap-y-1">
+            <h2 className="truncate text-xs font-semibold text-muted-foreground">
+              {repository}
+            </h2>
+            <ul className="flex flex-col gap-y-1">
+              {pullRequests.map((pr) => (
+                <PullRequestItem
+                  key={pr.url}
+                  pr={pr}
+                  updateTimes={state.updateTimes}
+                  onSnooze={onSnooze}
+                  onUnpin={onUnpin}
+                  onMarkSeen={onMarkSeen}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+        {snoozed.length > 0 && (
+          <section className="flex flex-col gap-y-1">
+            <h2 className="text-xs font-semibold text-muted-foreground">
+              Snoozed &amp; ignored
+            </h2>
+            <ul className="flex flex-col gap-y-1">
+              {snoozed.map((pr) => (
+                <li
+                  key={pr.url}
+                  className="flex items-center gap-x-2 rounded-md p-1 text-sm"
+                >
+                  <span className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate">{pr.name}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {pr.organization}/{pr.repository_name} #{pr.number}{" "}
+                      &middot; {describeSnooze(pr.snooze!)}
+                    </span>
+                  </span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="shrink-0 gap-1"
+                    title="Show it in the folders again"
+                    onClick={() => onSnooze(pr.url, null)}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {recentlyRemoved.length > 0 && (
+          <section className="flex flex-col gap-y-1">
+            <h2 className="text-xs font-semibold text-muted-foreground">
+              Recently removed
+            </h2>
+            <ul className="flex flex-col gap-y-1">
+              {recentlyRemoved.map((entry) => (
+                <li
+                  key={`${entry.folderKey}:${entry.pr.url}`}
+                  className="flex items-center gap-x-2 rounded-md p-1 text-sm"
+                >
+                  <button
+                    type="button"
+                    onClick={() => openPullRequest(entry.pr.url)}
+                    className="flex min-w-0 flex-1 flex-col text-left"
+                  >
+                    <span className="truncate">{entry.pr.name}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {entry.pr.organization}/{entry.pr.repository_name} #
+                      {entry.pr.number} &middot; {entry.folder},{" "}
+                      {formatAge(entry.removedAt)} ago
+                    </span>
+                  </button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="shrink-0 gap-1"
+                    title="Put it back in its folder until the grace period runs out again"
+                    onClick={() => onRestore(entry)}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+      {state.lastUpdate && (
+        <p className="text-center text-xs text-muted-foreground">
+          Updated {formatAge(state.lastUpdate)} ago
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PullRequestItem({
+  pr,
+  updateTimes,
+  onSnooze,
+  onUnpin,
+  onMarkSeen,
+}: {
+  pr: TrackedPullRequest;
+  updateTimes: boolean;
+  onSnooze: (url: string, snooze: SnoozeRequest) => Promise<void>;
+  onUnpin: (url: string) => Promise<void>;
+  onMarkSeen: (url: string) => Promise<void>;
+}) {
+  return (
+    <li className="flex items-start gap-x-1">
+      <button
+        type="button"
+        onClick={() => openPullRequest(pr.url)}
+        className="flex min-w-0 flex-1 flex-col gap-y-1 rounded-md p-1 text-left hover:bg-muted"
+      >
+        <span className="flex w-full items-baseline gap-x-1 text-sm">
+          {pr.status === "new" && (
+            <span
+              className="h-2 w-2 shrink-0 rounded-full bg-primary"
+              title="Not opened yet"
+            />
+          )}
+          {pr.status === "updated" && (
+            <span
+              className="h-2 w-2 shrink-0 rounded-full border border-primary"
+              title="Updated since you opened it"
+            />
+          )}
+          <span className="truncate">{pr.name}</span>
+          <span className="shrink-0 text-xs text-muted-foreground">
+            #{pr.number}
+          </span>
+        </span>
+        <span className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          {pr.pinned && <Badge variant="outline">Pinned</Badge>}
+          {pr.isDraft && <Badge variant="outline">Draft</Badge>}
+          {pr.ciStatus && (
+            <Badge variant="outline" title={`CI: ${pr.ciStatus}`}>
+              {CI_EMOJI[pr.ciStatus]}
+            </Badge>
+          )}
+          {pr.reviewState && (
+            <Badge
+              variant="outline"
+              title={`Review: ${pr.reviewState.replace("_", " ")}`}
+            >
+              {REVIEW_EMOJI[pr.reviewState]}
+            </Badge>
+          )}
+          {pr.labels.map((label) => (
+            <Badge key={label} variant="secondary" className="font-normal">
+              {label}
+            </Badge>
+          ))}
+          {!!pr.commentCount && (
+            <span className="inline-flex items-center gap-0.5">
+              <MessageSquare className="h-3 w-3" />
+              {pr.commentCount}
+            </span>
+          )}
+          {pr.author && <span>by {pr.author}</span>}
+          {(pr.createdAt ?? pr.updatedAt) && (
+            <span>{formatAge(pr.createdAt ?? pr.updatedAt)} old</span>
+          )}
+        </span>
+      </button>
+      {pr.status && (
+        <button
+          type="button"
+          title="Mark as seen"
+          className="shrink-0 p-1 text-muted-foreground hover:text-foreground"
+          onClick={() => onMarkSeen(pr.url)}
+        >
+          <Eye className="h-4 w-4" />
+        </button>
+      )}
+      {pr.pinned && (
+        <button
+          type="button"
+          title="Unpin from the live folder"
+          className="shrink-0 p-1 text-muted-foreground hover:text-foreground"
+          onClick={() => onUnpin(pr.url)}
+        >
+          <PinOff className="h-4 w-4" />
+        </button>
+      )}
+      <SnoozeMenu
+        updateTimes={updateTimes}
+        onSnooze={(snooze) => onSnooze(pr.url, snooze)}
+      />
+    </li>
+  );
+}
+
+function FilterToggle({
+  active,
+  onToggle,
+  children,
+}: {
+  active: boolean;
+  onToggle: (active: boolean) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={active ? "secondary" : "ghost"}
+      className="h-6 px-2 text-xs"
+      aria-pressed={active}
+      onClick={() => onToggle(!active)}
+    >
+      {children}
+    </Button>
+  );
+}
+
+// NOTE: A plain select keeps the popup small, "custom" asks for a date
+function SnoozeMenu({
+  updateTimes,
+  onSnooze,
+}: {
+  updateTimes: boolean;
+  onSnooze: (snooze: SnoozeRequest) => Promise<void>;
+}) {
+  const [custom, setCustom] = React.useState(false);
+  const [until, setUntil] = React.useState("");
+  const [pending, setPending] = React.useState(false);
+
+  async function snooze(request: SnoozeRequest) {
+    setPending(true);
+    try {
+      await onSnooze(request);
+    } finally {
+      setPending(false);
+    }
+  }
+
+  if (custom) {
+    const untilTime = until ? new Date(until).getTime() : NaN;
+    return (
+      <span className="flex shrink-0 flex-col items-end gap-1">
+        <input
+          type="datetime-local"
+          value={until}
+          onChange={(event) => setUntil(event.target.value)}
+          className="rounded-md border border-input bg-background px-1 text-xs"
+        />
+        <span className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            onClick={() => setCustom(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={pending || !(untilTime > Date.now())}
+            onClick={() => snooze({ type: "until", until: untilTime })}
+          >
+            Snooze
+          </Button>
+        </span>
+      </span>
+    );
+  }
+
+  return (
+    <label className="relative shrink-0 p-1" title="Snooze or ignore">
+      <BellOff className="h-4 w-4 text-muted-foreground" />
+      <select
+        value=""
+        disabled={pending}
+        aria-label="Snooze or ignore"
+        className="absolute inset-0 cursor-pointer opacity-0"
+        onChange={(event) => {
+          const preset = event.target.value;
+          if (preset === "custom") {
+            setCustom(true);
+          } else if (preset) {
+            snooze(getSnoozeRequest(preset as SnoozePreset));
+          }
+        }}
+      >
+        <option value="" disabled>
+          Snooze…
+        </option>
+        {getSnoozePresets({ updateTimes }).map(([preset, label]) => (
+          <option key={preset} value={preset}>
+            {label}
+          </option>
+        ))}
+        <option value="custom">Until a date…</option>
+      </select>
+    </label>
+  );
+}
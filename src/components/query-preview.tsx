@@ -0,0 +1,85 @@
+import * as React from "react";
+import { sendMessage } from "webext-bridge/popup";
+import { Loader2, Search } from "lucide-react";
+import { Button } from "./ui/button";
+import { type PullRequest } from "@/src/github-handler";
+import { normalizeSearchQuery, validateSearchQuery } from "@/src/search-query";
+
+type PreviewResult = {
+  error: string | null;
+  count: number;
+  pullRequests: PullRequest[];
+};
+
+export function QueryPreview({ query }: { query: string }) {
+  const [pending, startTransition] = React.useTransition();
+  const [result, setResult] = React.useState<PreviewResult | null>(null);
+  const syntaxError = validateSearchQuery(query);
+
+  // Results of an earlier query are misleading once it was edited
+  React.useEffect(() => {
+    setResult(null);
+  }, [query]);
+
+  function runPreview() {
+    startTransition(async () => {
+      try {
+        const response = await sendMessage(
+          "PREVIEW_QUERY",
+          { query },
+          "background",
+        );
+        setResult(response);
+      } catch (error) {
+        console.error("Error previewing query:", error);
+        setResult({
+          error: "Query could not be previewed",
+          count: 0,
+          pullRequests: [],
+        });
+      }
+    });
+  }
+
+  if (syntaxError) return null;
+
+  return (
+    <div className="flex flex-col gap-y-1 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between gap-x-2">
+        <code className="truncate">{normalizeSearchQuery(query)}</code>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-7 shrink-0 gap-1 px-2 text-xs"
+          disabled={pending}
+          onClick={runPreview}
+        >
+          {pending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Search className="h-3 w-3" />
+          )}
+          Preview
+        </Button>
+      </div>
+      {result?.error && <p className="text-destructive">{result.error}</p>}
+      {result && !result.error && (
+        <div>
+          <p>
+            {result.count === 0
+              ? "No pull requests match this query."
+              : `${result.count} pull request${result.count === 1 ? "" : "s"} on the first page, e.g.:`}
+          </p>
+          <ul className="list-inside list-disc">
+            {result.pullRequests.map((pr) => (
+              <li key={pr.url} className="truncate">
+                {pr.repository_name}#{pr.number} {pr.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm, type FieldErrors } from "react-hook-form";
 import { z } from "zod";
 import * as React from "react";
 import {
@@ -14,57 +14,121 @@ import {
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
 import { sendMessage } from "webext-bridge/popup";
-import { PrNamePreview } from "./pr-name-preview";
-import { Loader2 } from "lucide-react";
+import { HostPermissionButton } from "./host-permission-button";
+import { FolderFields, folderSchema } from "./folder-fields";
+import { normalizeGithubHost } from "@/utils/utils";
+import {
+  BADGE_MODES,
+  DATA_SOURCES,
+  TAB_GROUP_COLORS,
+} from "@/src/settings-schema";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
 
-const TAB_GROUP_COLORS = [
-  "grey",
-  "blue",
-  "red",
-  "yellow",
-  "green",
-  "pink",
-  "purple",
-  "cyan",
-  "orange",
+const BADGE_MODE_OPTIONS = [
+  { value: "total", label: "All tracked pull requests" },
+  { value: "unseen", label: "Pull requests not opened yet" },
+  { value: "off", label: "Only warnings" },
 ] as const;
 
-const PR_FILTER_OPTIONS = [
-  { value: "both", label: "Assigned to me & Review requested" },
-  { value: "assigned", label: "Assigned to me only" },
-  { value: "review-requested", label: "Review requested only" },
+const DATA_SOURCE_OPTIONS = [
+  { value: "html", label: "Browser session (github.com pages)" },
+  { value: "api", label: "Personal access token (GitHub API)" },
 ] as const;
 
-const settingsSchema = z.object({
-  name: z
-    .string({
-      required_error: "Name is required",
-    })
-    .trim()
-    .min(1, { message: "Name is required" })
-    .max(200, { message: "Name is too long" }),
-  prNameFormat: z
-    .string({
-      required_error: "Name format is required",
-    })
-    .trim()
-    .min(1, { message: "Name format is required" })
-    .max(200, { message: "Name format is too long" }),
-  refreshInterval: z.coerce
-    .number({
-      required_error: "Refresh interval is required",
-    })
-    .int({
-      message: "Refresh interval must a whole number",
-    })
-    .positive({
-      message: "Refresh interval must be positive",
-    })
-    .min(1, { message: "Refresh interval is required" }),
-  tabGroupColor: z.enum(TAB_GROUP_COLORS).optional(),
-  prFilter: z.enum(["assigned", "review-requested", "both"]),
-  organizationFilter: z.string().optional(),
-});
+const settingsSchema = z
+  .object({
+    folders: z
+      .array(folderSchema)
+      .min(1, { message: "At least one folder is required" }),
+    maxPages: z.coerce
+      .number({
+        required_error: "Page limit is required",
+      })
+      .int({
+        message: "Page limit must be a whole number",
+      })
+      .min(1, { message: "Page limit must be at least 1" })
+      .max(50, { message: "Page limit can't be higher than 50" }),
+    syncSettings: z.boolean(),
+    badgeMode: z.enum(BADGE_MODES),
+    quietHours: z
+      .object({
+        enabled: z.boolean(),
+        start: z.string().min(1, { message: "Start time is required" }),
+        end: z.string().min(1, { message: "End time is required" }),
+      })
+      .refine(({ start, end }) => start !== end, {
+        message: "Start and end must differ",
+        path: ["end"],
+      }),
+    removalGrace: z.object({
+      syncs: z.coerce
+        .number({ required_error: "Number of syncs is required" })
+        .int({ message: "Number of syncs must be a whole number" })
+        .min(1, { message: "Number of syncs must be at least 1" })
+        .max(20, { message: "Number of syncs can't be higher than 20" }),
+      minutes: z.coerce
+        .number({ required_error: "Minutes are required" })
+        .int({ message: "Minutes must be a whole number" })
+        .min(1, { message: "Minutes must be at least 1" })
+        .max(1440, { message: "Minutes can't be higher than 1440" }),
+    }),
+    dataSource: z.enum(DATA_SOURCES),
+    githubHosts: z
+      .array(
+        z.object({
+          host: z
+            .string()
+            .transform(normalizeGithubHost)
+            .pipe(z.string().min(1, { message: "Host is required" })),
+          token: z.string().trim(),
+        }),
+      )
+      .min(1, { message: "At least one host is required" }),
+  })
+  .superRefine((data, ctx) => {
+    // NOTE: Tab groups are found again by their title, so names must be unique
+    const seenNames = new Set<string>();
+    data.folders.forEach(({ name }, index) => {
+      const normalizedName = name.toLowerCase();
+      if (seenNames.has(normalizedName)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Name is already used by another folder",
+          path: ["folders", index, "name"],
+        });
+      }
+      seenNames.add(normalizedName);
+    });
+
+    const seenHosts = new Set<string>();
+    data.githubHosts.forEach(({ host, token }, index) => {
+      if (seenHosts.has(host)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Host is already on the list",
+          path: ["githubHosts", index, "host"],
+        });
+      }
+      seenHosts.add(host);
+
+      if (data.dataSource === "api" && !token) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "A token is required to use the GitHub API",
+          path: ["githubHosts", index, "token"],
+        });
+      }
+    });
+  });
 
 type SettingsSchema = z.infer<typeof settingsSchema>;
 
@@ -76,32 +140,85 @@ export function SettingsForm({
   defaultValues: SettingsSchema | null;
 }) {
   const [pending, startTransition] = React.useTransition();
+  const [saveError, setSaveError] = React.useState<string | null>(null);
   const form = useForm<SettingsSchema>({
     resolver: zodResolver(settingsSchema),
     defaultValues: defaultValues ?? {},
     reValidateMode: "onChange",
     mode: "onChange",
   });
+  const dataSource = form.watch("dataSource");
+  const quietHoursEnabled = form.watch("quietHours.enabled");
+  const githubHosts = useFieldArray({
+    control: form.control,
+    name: "githubHosts",
+  });
+  const folders = useFieldArray({
+    control: form.control,
+    name: "folders",
+    keyName: "fieldId",
+  });
+  const [editingKey, setEditingKey] = React.useState<string | null>(
+    defaultValues?.folders.length === 1 ? defaultValues.folders[0].key : null,
+  );
+
+  function addFolder() {
+    const key = crypto.randomUUID();
+    folders.append({
+      key,
+      name: "",
+      prNameFormat: "[%repository%] %name%",
+      refreshInterval: 1,
+      tabGroupColor:
+        TAB_GROUP_COLORS[folders.fields.length % TAB_GROUP_COLORS.length],
+      prFilter: "both",
+      groupBy: "none",
+      notifySources: ["review-requested"],
+      headerLinks: [],
+      sortOrder: "none",
+      sortPriority: "",
+      organizationFilter: "",
+      customQueries: [],
+    });
+    setEditingKey(key);
+  }
+
+  // Collapsed folders would hide their errors
+  function onInvalid(errors: FieldErrors<SettingsSchema>) {
+    const index = errors.folders?.findIndex?.((error) => !!error) ?? -1;
+    if (index !== -1) setEditingKey(form.getValues(`folders.${index}.key`));
+  }
 
   function onSubmit(data: SettingsSchema) {
     startTransition(async () => {
+      setSaveError(null);
       try {
-        await sendMessage(
+        const { success } = await sendMessage(
           "SET_CONFIG",
           {
-            name: data.name,
-            prNameFormat: data.prNameFormat,
-            refreshInterval: data.refreshInterval,
-            prFilter: data.prFilter,
-            organizationFilter: data.organizationFilter || "",
-            ...(isChrome &&
-              data.tabGroupColor && { tabGroupColor: data.tabGroupColor }),
+            folders: data.folders.map((folder) => ({
+              ...folder,
+              organizationFilter: folder.organizationFilter || "",
+              tabGroupColor: folder.tabGroupColor ?? "blue",
+            })),
+            dataSource: data.dataSource,
+            githubHosts: data.githubHosts,
+            maxPages: data.maxPages,
+            syncSettings: data.syncSettings,
+            quietHours: data.quietHours,
+            badgeMode: data.badgeMode,
+            removalGrace: data.removalGrace,
           },
           "background",
         );
+        if (!success) {
+          setSaveError("The settings could not be saved");
+          return;
+        }
         form.reset(data);
       } catch (error) {
         console.error("Error sending message:", error);
+        setSaveError("The settings could not be saved");
       }
     });
   }
@@ -109,79 +226,102 @@ export function SettingsForm({
   return (
     <Form {...form}>
       <form
-        onSubmit={form.handleSubmit(onSubmit)}
+        onSubmit={form.handleSubmit(onSubmit, onInvalid)}
         className="flex flex-col gap-y-2"
       >
-        <FormField
-          control={form.control}
-          name="name"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>
-                {isChrome ? "Tab Group Name" : "Folder Name"}
-              </FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Pull Requests"
+        <div className="flex flex-col gap-y-2">
+          <FormLabel>{isChrome ? "Tab Groups" : "Folders"}</FormLabel>
+          {folders.fields.map((item, index) => (
+            <div
+              key={item.fieldId}
+              className="flex flex-col gap-y-2 rounded-md border border-input p-2"
+            >
+              <div className="flex items-center gap-x-1">
+                <span className="flex-1 truncate text-sm font-medium">
+                  {form.watch(`folders.${index}.name`) || "Unnamed"}
+                </span>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  title="Move up"
+                  disabled={pending || index === 0}
+                  onClick={() => folders.move(index, index - 1)}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  title="Move down"
+                  disabled={pending || index === folders.fields.length - 1}
+                  onClick={() => folders.move(index, index + 1)}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  title="Edit"
                   disabled={pending}
-                  {...field}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        {isChrome && (
-          <FormField
-            control={form.control}
-            name="tabGroupColor"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Tab Group Color</FormLabel>
-                <FormControl>
-                  <div className="flex gap-2">
-                    {TAB_GROUP_COLORS.map((color) => (
-                      <button
-                        key={color}
-                        type="button"
-                        disabled={pending}
-                        onClick={() => field.onChange(color)}
-                        className={`h-8 w-8 rounded-md border-2 transition-all ${
-                          field.value === color
-                            ? "scale-110 border-primary"
-                            : "border-transparent hover:scale-105"
-                        }`}
-                        style={{
-                          backgroundColor:
-                            color === "grey"
-                              ? "#5f6368"
-                              : color === "cyan"
-                                ? "#06b6d4"
-                                : color,
-                        }}
-                        title={color}
-                      />
-                    ))}
-                  </div>
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        )}
+                  onClick={() =>
+                    setEditingKey(editingKey === item.key ? null : item.key)
+                  }
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  title="Delete"
+                  disabled={pending || folders.fields.length === 1}
+                  onClick={() => folders.remove(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {editingKey === item.key && (
+                <FolderFields index={index} pending={pending} />
+              )}
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            disabled={pending}
+            onClick={addFolder}
+          >
+            <Plus className="h-4 w-4" />
+            {isChrome ? "Add tab group" : "Add folder"}
+          </Button>
+          <FormDescription className="text-xs leading-tight">
+            Each {isChrome ? "tab group" : "folder"} tracks its own pull
+            requests. Removed ones are cleaned up on save, open pull request
+            tabs are kept.
+          </FormDescription>
+        </div>
         <FormField
           control={form.control}
-          name="prFilter"
+          name="dataSource"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Pull Requests to Track</FormLabel>
+              <FormLabel>Data Source</FormLabel>
               <FormControl>
                 <select
                   {...field}
                   disabled={pending}
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                 >
-                  {PR_FILTER_OPTIONS.map((option) => (
+                  {DATA_SOURCE_OPTIONS.map((option) => (
                     <option key={option.value} value={option.value}>
                       {option.label}
                     </option>
@@ -192,72 +332,272 @@ export function SettingsForm({
             </FormItem>
           )}
         />
+        <div className="flex flex-col gap-y-2">
+          <FormLabel>GitHub Hosts</FormLabel>
+          {githubHosts.fields.map((item, index) => (
+            <div key={item.id} className="flex flex-col gap-y-1">
+              <div className="flex items-start gap-x-1">
+                <FormField
+                  control={form.control}
+                  name={`githubHosts.${index}.host`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input
+                          placeholder="github.example.com"
+                          disabled={pending}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <HostPermissionButton
+                  host={normalizeGithubHost(
+                    form.watch(`githubHosts.${index}.host`) ?? "",
+                  )}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="shrink-0"
+                  title="Remove host"
+                  disabled={pending || githubHosts.fields.length === 1}
+                  onClick={() => githubHosts.remove(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {dataSource === "api" && (
+                <FormField
+                  control={form.control}
+                  name={`githubHosts.${index}.token`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="off"
+                          placeholder="Personal access token (github_pat_...)"
+                          disabled={pending}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            disabled={pending}
+            onClick={() => githubHosts.append({ host: "", token: "" })}
+          >
+            <Plus className="h-4 w-4" />
+            Add host
+          </Button>
+          <FormDescription className="text-xs leading-tight">
+            Every {isChrome ? "tab group" : "folder"} tracks the pull requests
+            of all hosts. GitHub Enterprise Server hosts need to be granted
+            access.
+            {dataSource === "api" &&
+              " Each host needs a fine-grained token with read access to pull requests."}
+          </FormDescription>
+        </div>
         <FormField
           control={form.control}
-          name="organizationFilter"
+          name="maxPages"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Organizations (optional)</FormLabel>
+              <FormLabel>Page Limit</FormLabel>
               <FormControl>
                 <Input
-                  placeholder="e.g., myorg, company"
                   disabled={pending}
+                  type="number"
+                  min="1"
+                  max="50"
+                  step="1"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
                   {...field}
                 />
               </FormControl>
               <FormDescription className="text-xs leading-tight">
-                Leave empty to show all organizations, or enter comma-separated
-                organization names to filter.
+                Maximum number of result pages read per list. Nothing is removed
+                while a list has more pages than this.
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
+        <div className="flex flex-col gap-y-2">
+          <FormLabel>Remove Missing Pull Requests After</FormLabel>
+          <div className="flex items-start gap-x-2">
+            <FormField
+              control={form.control}
+              name="removalGrace.syncs"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input
+                      disabled={pending}
+                      type="number"
+                      min="1"
+                      max="20"
+                      step="1"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <span className="py-2 text-sm">syncs or</span>
+            <FormField
+              control={form.control}
+              name="removalGrace.minutes"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input
+                      disabled={pending}
+                      type="number"
+                      min="1"
+                      max="1440"
+                      step="1"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <span className="py-2 text-sm">minutes</span>
+          </div>
+          <FormDescription className="text-xs leading-tight">
+            A pull request which drops out of the results stays until either of
+            them is reached, e.g. when GitHub fails to list it once.
+          </FormDescription>
+        </div>
         <FormField
           control={form.control}
-          name="refreshInterval"
+          name="badgeMode"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Refresh Interval</FormLabel>
+              <FormLabel>Toolbar Badge</FormLabel>
               <FormControl>
-                <Input
-                  disabled={pending}
-                  type="number"
-                  min="1"
-                  step="1"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
+                <select
                   {...field}
-                />
+                  disabled={pending}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {BADGE_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
               </FormControl>
-              <FormDescription>
-                Refresh interval of pull requests in minutes.
+              <FormDescription className="text-xs leading-tight">
+                A &quot;!&quot; replaces the count when a host needs you to sign
+                in or to confirm SSO.
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
+        <div className="flex flex-col gap-y-2">
+          <FormField
+            control={form.control}
+            name="quietHours.enabled"
+            render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center gap-x-2">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      disabled={pending}
+                      checked={field.value ?? false}
+                      onChange={(event) => field.onChange(event.target.checked)}
+                      onBlur={field.onBlur}
+                      ref={field.ref}
+                      className="h-4 w-4 accent-primary"
+                    />
+                  </FormControl>
+                  <FormLabel>Quiet Hours</FormLabel>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {quietHoursEnabled && (
+            <div className="flex items-start gap-x-2">
+              <FormField
+                control={form.control}
+                name="quietHours.start"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input type="time" disabled={pending} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <span className="py-2 text-sm">to</span>
+              <FormField
+                control={form.control}
+                name="quietHours.end"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input type="time" disabled={pending} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+          <FormDescription className="text-xs leading-tight">
+            No notifications are shown during quiet hours.
+          </FormDescription>
+        </div>
         <FormField
           control={form.control}
-          name="prNameFormat"
+          name="syncSettings"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Pull Request Name Format</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="[%repository%] %name%"
-                  disabled={pending}
-                  {...field}
-                />
-              </FormControl>
+              <div className="flex items-center gap-x-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    disabled={pending}
+                    checked={field.value ?? false}
+                    onChange={(event) => field.onChange(event.target.checked)}
+                    onBlur={field.onBlur}
+                    ref={field.ref}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </FormControl>
+                <FormLabel>Sync Settings Between Devices</FormLabel>
+              </div>
               <FormDescription className="text-xs leading-tight">
-                You can alter the format by using placeholders: %repository%,
-                %name%, %number%.
+                Shares the settings, without tokens, through your browser
+                account. Turning it on loads the settings of your other devices
+                if there are any.
               </FormDescription>
-              <div className="text-[0.8rem] text-xs text-muted-foreground">
-                The pull request name will have the following format:
-                <PrNamePreview prName={field.value} />
-              </div>
               <FormMessage />
             </FormItem>
           )}
@@ -270,6 +610,12 @@ export function SettingsForm({
         >
           {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
         </Button>
+        {saveError && (
+          <div className="inline-flex w-full items-start gap-x-3 rounded-sm bg-destructive/40 p-2 text-xs">
+            <AlertTriangle className="h-3 w-3 shrink-0" />
+            <span>{saveError}</span>
+          </div>
+        )}
       </form>
     </Form>
   );
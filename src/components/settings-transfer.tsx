@@ -0,0 +1,168 @@
+import * as React from "react";
+import { sendMessage } from "webext-bridge/popup";
+import { AlertTriangle, Download, Loader2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  type LiveFolderConfig,
+  type PortableSettings,
+} from "@/src/config-handler";
+import {
+  diffPortableSettings,
+  mergePortableSettings,
+  parsePortableSettings,
+  toPortableSettings,
+} from "@/src/portable-settings";
+
+const textareaClassName =
+  "flex min-h-20 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+function parseJson(text: string) {
+  try {
+    return parsePortableSettings(JSON.parse(text));
+  } catch {
+    return { settings: null, error: "File is not valid JSON" };
+  }
+}
+
+export function SettingsTransfer({
+  config,
+  onImported,
+}: {
+  config: LiveFolderConfig | null;
+  onImported: () => void;
+}) {
+  const [pending, startTransition] = React.useTransition();
+  const [text, setText] = React.useState("");
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const imported = text.trim() ? parseJson(text) : null;
+  const changes =
+    config && imported?.settings
+      ? diffPortableSettings(toPortableSettings(config), imported.settings)
+      : [];
+
+  function exportSettings() {
+    if (!config) return;
+
+    const blob = new Blob(
+      [JSON.stringify(toPortableSettings(config), null, 2)],
+      { type: "application/json" },
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "live-folder-settings.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function loadFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (file) setText(await file.text());
+    event.target.value = "";
+  }
+
+  function importSettings(settings: PortableSettings) {
+    if (!config) return;
+
+    startTransition(async () => {
+      setImportError(null);
+      try {
+        const { success } = await sendMessage(
+          "SET_CONFIG",
+          mergePortableSettings(config, settings),
+          "background",
+        );
+        if (!success) {
+          setImportError("The imported settings could not be saved");
+          return;
+        }
+        setText("");
+        onImported();
+      } catch (error) {
+        console.error("Error importing settings:", error);
+        setImportError("The imported settings could not be saved");
+      }
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-y-2 text-sm">
+      <div className="flex gap-x-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="flex-1 gap-1"
+          disabled={!config || pending}
+          onClick={exportSettings}
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="flex-1 gap-1"
+          disabled={!config || pending}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          Import file
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={loadFile}
+        />
+      </div>
+      <textarea
+        value={text}
+        disabled={!config || pending}
+        onChange={(event) => setText(event.target.value)}
+        placeholder="...or paste exported settings here"
+        className={textareaClassName}
+      />
+      {imported?.error && (
+        <p className="text-xs text-destructive">{imported.error}</p>
+      )}
+      {imported?.settings && (
+        <div className="flex flex-col gap-y-2 text-xs text-muted-foreground">
+          {changes.length === 0 ? (
+            <p>The settings are the same as the current ones.</p>
+          ) : (
+            <ul className="list-inside list-disc">
+              {changes.map((change) => (
+                <li key={change}>{change}</li>
+              ))}
+            </ul>
+          )}
+          <p>Tokens are not exported, they are kept for known hosts.</p>
+          <Button
+            type="button"
+            size="sm"
+            className="font-bold text-accent-foreground"
+            disabled={pending || changes.length === 0}
+            onClick={() => importSettings(imported.settings)}
+          >
+            {pending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Apply imported settings"
+            )}
+          </Button>
+        </div>
+      )}
+      {importError && (
+        <div className="inline-flex w-full items-start gap-x-3 rounded-sm bg-destructive/40 p-2 text-xs">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span>{importError}</span>
+        </div>
+      )}
+    </div>
+  );
+}
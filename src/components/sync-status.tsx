@@ -0,0 +1,124 @@
+import * as React from "react";
+import { sendMessage } from "webext-bridge/popup";
+import { AlertTriangle, Loader2, RefreshCw, Undo2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { type SyncStatus as SyncStatusType } from "@/src/live-folder";
+import { formatAge } from "@/src/pr-name-template";
+
+const POLL_INTERVAL = 1000;
+
+export function SyncStatus() {
+  const [status, setStatus] = React.useState<SyncStatusType | null>(null);
+
+  const loadStatus = React.useCallback(async () => {
+    try {
+      setStatus(await sendMessage("GET_SYNC_STATUS", null, "background"));
+    } catch (error) {
+      console.error("Error getting sync status:", error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // NOTE: Follows a running sync until it's done
+  React.useEffect(() => {
+    if (!status?.syncing) return;
+    const timeout = setTimeout(loadStatus, POLL_INTERVAL);
+    return () => clearTimeout(timeout);
+  }, [status, loadStatus]);
+
+  async function syncNow() {
+    try {
+      setStatus(await sendMessage("SYNC_NOW", null, "background"));
+    } catch (error) {
+      console.error("Error starting sync:", error);
+    }
+  }
+
+  async function undoLastSync() {
+    try {
+      const { success } = await sendMessage(
+        "UNDO_LAST_SYNC",
+        null,
+        "background",
+      );
+      if (!success) console.error("Failed to undo the last sync");
+    } catch (error) {
+      console.error("Error undoing the last sync:", error);
+    }
+    await loadStatus();
+  }
+
+  if (!status) return null;
+
+  const errors = [
+    ...(status.error ? [status.error] : []),
+    ...status.folders.flatMap((folder) =>
+      folder.errors.map((error) =>
+        status.folders.length > 1 ? `${folder.name}: ${error}` : error,
+      ),
+    ),
+  ];
+
+  return (
+    <div className="flex flex-col gap-y-2">
+      <div className="flex items-center justify-between gap-x-2 text-xs text-muted-foreground">
+        <span>
+          {status.syncing
+            ? "Syncing…"
+            : status.lastSync
+              ? `Synced ${formatAge(status.lastSync)} ago`
+              : "Not synced yet"}
+          {" · "}
+          {status.prCount} pull {status.prCount === 1 ? "request" : "requests"}
+        </span>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-7 gap-1"
+          disabled={status.syncing}
+          onClick={syncNow}
+        >
+          {status.syncing ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+          Sync now
+        </Button>
+      </div>
+      {status.undo && (
+        <div className="flex items-center justify-between gap-x-2 text-xs text-muted-foreground">
+          <span>
+            Last change {formatAge(status.undo.syncedAt)} ago:{" "}
+            {status.undo.added} added, {status.undo.removed} removed
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1"
+            disabled={status.syncing}
+            title="Restore the removed bookmarks and tabs, remove the added ones"
+            onClick={undoLastSync}
+          >
+            <Undo2 className="h-3 w-3" />
+            Undo last sync
+          </Button>
+        </div>
+      )}
+      {errors.map((error) => (
+        <div
+          key={error}
+          className="inline-flex w-full items-start gap-x-3 rounded-sm bg-destructive/40 p-2 text-xs"
+        >
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span>{error}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,25 +1,118 @@
 import { onMessage } from "webext-bridge/background";
 import { type GithubHandler, type PullRequest } from "./github-handler";
 import { type LiveFolder } from "./live-folder";
+import { type CustomQuery } from "./search-query";
+import { formatPrName, type NamedPullRequest } from "./pr-name-template";
+import { DEVICE_FOLDER_FIELDS, validateSettings } from "./settings-schema";
+import {
+  isSamePortableSettings,
+  matchFolders,
+  mergePortableSettings,
+  parsePortableSettings,
+  toPortableSettings,
+} from "./portable-settings";
+import {
+  SETTINGS_SCHEMA_VERSION,
+  getSettingsVersion,
+  migrateSettings,
+} from "./settings-migrations";
+
+export type PrFilterType = "assigned" | "review-requested" | "both" | "none";
+export type PrDataSource = "html" | "api";
+export type BadgeMode = "total" | "unseen" | "off";
+export type BookmarkGrouping =
+  | "none"
+  | "organization"
+  | "repository"
+  | "source";
+export type PrSortOrder =
+  | "none"
+  | "repository"
+  | "number"
+  | "updated"
+  | "age"
+  | "review-requested"
+  | "custom";
+
+export type GithubHost = {
+  host: string; // e.g. "github.com" or a GitHub Enterprise Server host
+  token: string; // fine-grained personal access token for the "api" source
+};
 
-export type PrFilterType = "assigned" | "review-requested" | "both";
+// NOTE: Link kept at the top of a live folder, e.g. a team dashboard
+export type HeaderLink = {
+  title: string;
+  url: string;
+};
 
-export type LiveFolderConfig = {
-  id: string;
+// NOTE: A PR missing from the results leaves its folder after either of them
+export type RemovalGrace = {
+  syncs: number; // consecutive syncs which didn't return it
+  minutes: number;
+};
+
+export type QuietHours = {
+  enabled: boolean;
+  start: string; // local time, "HH:MM"
+  end: string; // may be before start to span midnight
+};
+
+// NOTE: A single live folder (bookmark folder or tab group) and its sources
+export type LiveFolderDefinition = {
+  key: string; // stable identifier of the definition
+  id: string; // bookmark folder id
   name: string;
   refreshInterval: number; // in minutes
   prNameFormat: string;
   lastPrUpdate: number;
-  lastPrCount: number; // track previous PR count to detect new PRs
+  lastPrCount: number; // PRs in the folder after the last sync
   tabGroupId: number;
   tabGroupColor: chrome.tabGroups.ColorEnum;
   prFilter: PrFilterType;
   organizationFilter: string; // comma-separated list of organizations
+  customQueries: CustomQuery[]; // fetched in addition to prFilter
+  groupBy: BookmarkGrouping; // subfolders of the bookmark folder
+  notifySources: string[]; // ids of the sources whose new PRs raise a notification
+  headerLinks: HeaderLink[]; // kept at the top, before the pull requests
+  sortOrder: PrSortOrder; // of the bookmarks and tabs, "none" keeps the source order
+  sortPriority: string; // comma-separated terms for the "custom" sort order
 };
 
+export type LiveFolderConfig = {
+  schemaVersion: number; // see settings-migrations.ts
+  folders: LiveFolderDefinition[]; // in display order
+  dataSource: PrDataSource; // "html" scrapes the host pages, "api" uses the host tokens
+  githubHosts: GithubHost[];
+  maxPages: number; // maximum number of result pages fetched per source
+  syncSettings: boolean; // mirror the portable settings to storage.sync
+  quietHours: QuietHours; // no notifications in this time range
+  badgeMode: BadgeMode; // count shown on the toolbar icon
+  removalGrace: RemovalGrace;
+};
+
+export type EditableFolderDefinition = Omit<
+  LiveFolderDefinition,
+  (typeof DEVICE_FOLDER_FIELDS)[number]
+>;
+
+// NOTE: Settings shared with other devices and in exported files, host
+//       tokens are left empty
+export type PortableSettings = Omit<
+  LiveFolderConfig,
+  "folders" | "syncSettings"
+> & { folders: EditableFolderDefinition[] };
+
+// NOTE: Settings as sent by the popup
+export type LiveFolderConfigUpdate = Partial<
+  Omit<LiveFolderConfig, "folders" | "schemaVersion"> & {
+    folders: EditableFolderDefinition[];
+  }
+>;
+
 export class ConfigHandler {
   private readonly SETTINGS_KEY = "SETTINGS";
-  public readonly DEFAULT_SETTINGS: LiveFolderConfig = {
+  private readonly SYNC_KEY = "PORTABLE_SETTINGS"; // in storage.sync
+  public readonly DEFAULT_FOLDER: Omit<LiveFolderDefinition, "key"> = {
     id: "__unset__",
     name: "Pull Requests",
     refreshInterval: 1,
@@ -30,6 +123,23 @@ export class ConfigHandler {
     tabGroupColor: "blue",
     prFilter: "both",
     organizationFilter: "",
+    customQueries: [],
+    groupBy: "none",
+    notifySources: ["review-requested"],
+    headerLinks: [],
+    sortOrder: "none",
+    sortPriority: "",
+  };
+  public readonly DEFAULT_SETTINGS: LiveFolderConfig = {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    folders: [{ key: "default", ...this.DEFAULT_FOLDER }],
+    dataSource: "html",
+    githubHosts: [{ host: "github.com", token: "" }],
+    maxPages: 10,
+    syncSettings: false,
+    quietHours: { enabled: false, start: "22:00", end: "08:00" },
+    badgeMode: "total",
+    removalGrace: { syncs: 3, minutes: 10 },
   };
   private _lf: LiveFolder;
   private _githubHandler: GithubHandler;
@@ -41,7 +151,18 @@ export class ConfigHandler {
     onMessage("SET_CONFIG", async (message) => {
       try {
         console.log("[SET-CONFIG] Saving settings and triggering sync...");
-        await this.setSettings(message.data);
+        const previousSettings = await this.getSettings();
+        const { syncSettings, ...update } = message.data;
+        await this._applySettingsUpdate(update);
+
+        if (syncSettings !== undefined) {
+          // NOTE: A device joining the sync takes the settings of the others
+          if (syncSettings && !previousSettings.syncSettings) {
+            await this._pullSyncedSettings();
+          }
+          await this.setSettings({ syncSettings });
+        }
+
         console.log("[SET-CONFIG] Settings saved, syncing folder now...");
         await this._lf.syncFolder();
         console.log("[SET-CONFIG] Sync completed successfully!");
@@ -72,24 +193,68 @@ export class ConfigHandler {
     browser.bookmarks.onChanged.addListener(async (id, changeInfo) => {
       if (changeInfo.title) {
         const settings = await this.getSettings();
-        if (settings.name !== changeInfo.title && id === settings.id) {
-          await this.setSettings({ name: changeInfo.title });
+        const definition = settings.folders.find((folder) => folder.id === id);
+        if (definition && definition.name !== changeInfo.title) {
+          await this.setFolderDefinition(definition.key, {
+            name: changeInfo.title,
+          });
         }
       }
     });
 
-    browser.cookies.onChanged.addListener(async ({ cookie }) => {
-      if (this._githubHandler.isAuthCookie(cookie)) {
-        const newAuthState =
-          this._githubHandler.isAuthenticatedFromCookie(cookie);
-        this._githubHandler.updateAuthState(newAuthState);
+    // NOTE: Settings changed on another device
+    browser.storage.onChanged.addListener(async (changes, areaName) => {
+      if (areaName !== "sync" || !changes[this.SYNC_KEY]?.newValue) return;
+
+      const settings = await this.getSettings();
+      if (!settings.syncSettings) return;
+
+      const { settings: synced, error } = parsePortableSettings(
+        changes[this.SYNC_KEY].newValue,
+      );
+      if (!synced) {
+        console.error("[SYNC-SETTINGS] Ignoring synced settings:", error);
+        return;
       }
+      if (isSamePortableSettings(toPortableSettings(settings), synced)) return;
+
+      console.log("[SYNC-SETTINGS] Applying settings of another device");
+      await this._applySettingsUpdate(mergePortableSettings(settings, synced));
+      await this._lf.syncFolder();
+    });
+
+    browser.cookies.onChanged.addListener(
+      async ({ cookie, removed, cause }) => {
+        // NOTE: The session cookie is irrelevant when reading from the API
+        if (this._githubHandler.dataSource !== "html") return;
+        // An overwritten cookie is followed by an event for its new value
+        if (removed && cause === "overwrite") return;
+
+        const host = this._githubHandler.getHostForAuthCookie(cookie);
+        if (host) {
+          const newAuthState =
+            !removed && this._githubHandler.isAuthenticatedFromCookie(cookie);
+          if (this._githubHandler.updateAuthState(host, newAuthState)) {
+            await this._lf.onAuthStateChanged({
+              host,
+              authenticated: newAuthState,
+            });
+          } else {
+            await this._lf.updateBadge();
+          }
+        }
+      },
+    );
+
+    // NOTE: Enterprise hosts are granted from the popup at runtime
+    browser.permissions.onAdded.addListener(async ({ origins }) => {
+      if (!origins?.length) return;
+      await this._githubHandler.refreshAuthState();
+      await this._lf.syncFolder();
     });
 
     browser.runtime.onInstalled.addListener(async () => {
-      const newAuthState =
-        await this._githubHandler.isAuthenticatedFromBrowser();
-      this._githubHandler.updateAuthState(newAuthState);
+      await this._githubHandler.refreshAuthState();
     });
 
     browser.runtime.onStartup.addListener(async () => {
@@ -97,29 +262,62 @@ export class ConfigHandler {
       // This prevents race conditions on startup
       await new Promise((resolve) => setTimeout(resolve, 1000));
       await this._lf.syncFolder();
-      const newAuthState =
-        await this._githubHandler.isAuthenticatedFromBrowser();
-      this._githubHandler.updateAuthState(newAuthState);
+      await this._githubHandler.refreshAuthState();
     });
   }
 
+  /**
+   * Migrates the stored settings to the current schema version and validates
+   * them. Values which are invalid fall back to their defaults, everything
+   * else the user set is kept.
+   */
   public async ensureSettings(): Promise<LiveFolderConfig> {
     try {
-      const settings = await this.getSettings();
-      const hasAllKeys = Object.keys(this.DEFAULT_SETTINGS).every(
-        (key) => settings[key as keyof LiveFolderConfig] !== undefined,
-      );
+      const data = await browser.storage.local.get(this.SETTINGS_KEY);
+      const stored = data?.[this.SETTINGS_KEY];
 
-      if (!hasAllKeys) {
-        // TODO: Set only missing keys
+      if (!stored || typeof stored !== "object") {
         await this.setSettings(this.DEFAULT_SETTINGS);
         return this.DEFAULT_SETTINGS;
       }
 
+      const storedVersion = getSettingsVersion(
+        stored as Record<string, unknown>,
+      );
+      if (storedVersion > SETTINGS_SCHEMA_VERSION) {
+        console.warn(
+          "[ENSURE-SETTINGS] Settings are newer than this release:",
+          storedVersion,
+        );
+      } else if (storedVersion < SETTINGS_SCHEMA_VERSION) {
+        console.log(
+          "[ENSURE-SETTINGS] Migrating settings from version",
+          storedVersion,
+          "to",
+          SETTINGS_SCHEMA_VERSION,
+        );
+      }
+
+      const settings = validateSettings({
+        stored: migrateSettings(stored as Record<string, unknown>),
+        defaults: this.DEFAULT_SETTINGS,
+        defaultFolder: this.DEFAULT_FOLDER,
+        onInvalid: (field) =>
+          console.warn("[ENSURE-SETTINGS] Invalid value reset:", field),
+      });
+
+      await browser.storage.local.set({ [this.SETTINGS_KEY]: settings });
+
+      // NOTE: Another device may have changed the settings while this one
+      //       was off, they are taken before anything is pushed
+      if (settings.syncSettings) {
+        await this._pullSyncedSettings();
+        return await this.getSettings();
+      }
       return settings;
     } catch (error) {
+      // NOTE: Nothing is written here, the stored settings may still be fine
       console.error("[ENSURE-SETTINGS] Error ensuring settings:", error);
-      await this.setSettings(this.DEFAULT_SETTINGS);
       return this.DEFAULT_SETTINGS;
     }
   }
@@ -150,6 +348,20 @@ export class ConfigHandler {
         [this.SETTINGS_KEY]: updatedSettings,
       });
 
+      // NOTE: Only local changes of the portable settings are pushed, e.g.
+      //       not the device fields written on every sync. Pushing those
+      //       would overwrite changes of other devices not applied yet.
+      if (
+        updatedSettings.syncSettings &&
+        (!currentSettings.syncSettings ||
+          !isSamePortableSettings(
+            toPortableSettings(currentSettings),
+            toPortableSettings(updatedSettings),
+          ))
+      ) {
+        await this._pushSyncedSettings(updatedSettings);
+      }
+
       return updatedSettings;
     } catch (error) {
       console.error("[SET-SETTINGS] Error setting settings:", error);
@@ -157,22 +369,145 @@ export class ConfigHandler {
     }
   }
 
-  public async getFolder() {
+  private async _applySettingsUpdate({
+    folders,
+    ...settings
+  }: LiveFolderConfigUpdate) {
+    if (folders) {
+      await this._replaceFolderDefinitions(folders, settings);
+    } else {
+      await this.setSettings(settings);
+    }
+  }
+
+  /**
+   * Mirrors the portable settings to storage.sync. Only writes when they
+   * differ from the synced ones, as writes are limited.
+   */
+  private async _pushSyncedSettings(settings: LiveFolderConfig) {
+    try {
+      const portable = toPortableSettings(settings);
+      const data = await browser.storage.sync.get(this.SYNC_KEY);
+      const { settings: synced } = parsePortableSettings(data?.[this.SYNC_KEY]);
+      if (synced && isSamePortableSettings(portable, synced)) return;
+
+      await browser.storage.sync.set({ [this.SYNC_KEY]: portable });
+      console.log("[PUSH-SYNCED-SETTINGS] Settings synced");
+    } catch (error) {
+      // NOTE: The sync storage quota is small, local settings still work
+      console.error("[PUSH-SYNCED-SETTINGS] Error syncing settings:", error);
+    }
+  }
+
+  private async _pullSyncedSettings() {
     try {
+      const data = await browser.storage.sync.get(this.SYNC_KEY);
+      if (!data?.[this.SYNC_KEY]) return;
+
+      const { settings: synced, error } = parsePortableSettings(
+        data[this.SYNC_KEY],
+      );
+      if (!synced) {
+        console.error(
+          "[PULL-SYNCED-SETTINGS] Ignoring synced settings:",
+          error,
+        );
+        return;
+      }
+
       const settings = await this.getSettings();
+      if (isSamePortableSettings(toPortableSettings(settings), synced)) return;
 
-      if (!settings.id || settings.id === this.DEFAULT_SETTINGS.id) {
+      console.log("[PULL-SYNCED-SETTINGS] Applying the synced settings");
+      await this._applySettingsUpdate(mergePortableSettings(settings, synced));
+    } catch (error) {
+      console.error("[PULL-SYNCED-SETTINGS] Error loading settings:", error);
+    }
+  }
+
+  public createFolderDefinition(
+    definition: Partial<LiveFolderDefinition> = {},
+  ): LiveFolderDefinition {
+    return {
+      ...this.DEFAULT_FOLDER,
+      ...definition,
+      key: definition.key ?? crypto.randomUUID(),
+    };
+  }
+
+  public async getFolderDefinition(key: string) {
+    const settings = await this.getSettings();
+    return settings.folders.find((folder) => folder.key === key) ?? null;
+  }
+
+  public async setFolderDefinition(
+    key: string,
+    definition: Partial<Omit<LiveFolderDefinition, "key">>,
+  ) {
+    const settings = await this.getSettings();
+    await this.setSettings({
+      folders: settings.folders.map((folder) =>
+        folder.key === key ? { ...folder, ...definition } : folder,
+      ),
+    });
+  }
+
+  /**
+   * Replaces the definitions with the ones edited in the popup, together
+   * with the other `settings`. Device specific fields are kept from the
+   * stored definitions and the folders of removed definitions are cleaned up.
+   */
+  private async _replaceFolderDefinitions(
+    folders: EditableFolderDefinition[],
+    settings: Partial<LiveFolderConfig> = {},
+  ) {
+    const currentSettings = await this.getSettings();
+    const storedFolders = matchFolders(currentSettings.folders, folders);
+
+    const updatedFolders = folders.map((folder) => {
+      const stored = storedFolders.get(folder.key);
+      const deviceFields = stored
+        ? Object.fromEntries(
+            DEVICE_FOLDER_FIELDS.map((field) => [field, stored[field]]),
+          )
+        : {};
+      return this.createFolderDefinition({ ...folder, ...deviceFields });
+    });
+
+    const keptKeys = new Set(
+      [...storedFolders.values()].map((folder) => folder.key),
+    );
+    const removedFolders = currentSettings.folders.filter(
+      (folder) => !keptKeys.has(folder.key),
+    );
+
+    await this.setSettings({ ...settings, folders: updatedFolders });
+
+    for (const folder of removedFolders) {
+      await this._lf.removeFolder(folder);
+    }
+  }
+
+  public async getFolder(key: string) {
+    try {
+      const definition = await this.getFolderDefinition(key);
+
+      if (
+        !definition ||
+        !definition.id ||
+        definition.id === this.DEFAULT_FOLDER.id
+      ) {
         return null;
       }
 
       try {
-        return (await browser.bookmarks.get(settings.id))[0];
+        return (await browser.bookmarks.get(definition.id))[0];
       } catch (error) {
         if (
           error instanceof Error &&
           error.message.includes("Bookmark not found")
         ) {
-          await this.setSettings({ id: this.DEFAULT_SETTINGS.id });
+          await this.setFolderDefinition(key, { id: this.DEFAULT_FOLDER.id });
         } else {
           throw error;
         }
@@ -184,9 +519,9 @@ export class ConfigHandler {
     }
   }
 
-  public async initFolder() {
+  public async initFolder(key: string) {
     try {
-      const existingFolder = await this.getFolder();
+      const existingFolder = await this.getFolder(key);
       if (existingFolder) {
         return existingFolder;
       }
@@ -197,14 +532,18 @@ export class ConfigHandler {
         return null;
       }
 
-      const settings = await this.getSettings();
+      const definition = await this.getFolderDefinition(key);
+      if (!definition) {
+        console.error("[INIT-FOLDER] Unknown folder definition", key);
+        return null;
+      }
 
       const folder = await browser.bookmarks.create({
         parentId,
-        title: settings.name,
+        title: definition.name,
       });
 
-      await this.setSettings({ id: folder.id });
+      await this.setFolderDefinition(key, { id: folder.id });
 
       return folder;
     } catch (error) {
@@ -213,14 +552,14 @@ export class ConfigHandler {
     }
   }
 
-  public async ensureFolder() {
+  public async ensureFolder(key: string) {
     try {
-      const folder = await this.getFolder();
+      const folder = await this.getFolder(key);
       if (folder) {
         return folder;
       }
 
-      return await this.initFolder();
+      return await this.initFolder(key);
     } catch (error) {
       console.error("[ENSURE-FOLDER] Error ensuring folder:", error);
       return null;
@@ -239,11 +578,14 @@ export class ConfigHandler {
     }
   }
 
-  public formatPrName({ format, pr }: { format: string; pr: PullRequest }) {
-    return format
-      .replace(/%repository%/g, pr.repository_name)
-      .replace(/%name%/g, pr.name)
-      .replace(/%number%/g, pr.number.toString());
+  public formatPrName({
+    format,
+    pr,
+  }: {
+    format: string;
+    pr: NamedPullRequest;
+  }) {
+    return formatPrName({ format, pr });
   }
 
   public supportsTabGroups() {
@@ -0,0 +1,202 @@
+import { type Menus } from "webextension-polyfill";
+import { type LiveFolder } from "./live-folder";
+import { type LiveFolderDefinition } from "./config-handler";
+import {
+  getSnoozePresets,
+  getSnoozeRequest,
+  SNOOZE_PRESETS,
+  type SnoozePreset,
+} from "./snooze";
+
+type MenuRoot = {
+  id: string;
+  contexts: Menus.ContextType[];
+  patterns: "document" | "target" | null; // which url patterns apply
+};
+
+export class ContextMenuHandler {
+  private readonly _debug: boolean;
+  private readonly _lf: LiveFolder;
+  private _setupKey: string | null = null; // hosts and folders of the menus
+
+  // NOTE: Tabs and bookmarks can only be context-clicked in Firefox
+  private readonly _ROOTS: MenuRoot[] = [
+    {
+      id: "live-folder-page",
+      contexts:
+        import.meta.env.BROWSER === "firefox" ? ["page", "tab"] : ["page"],
+      patterns: "document",
+    },
+    { id: "live-folder-link", contexts: ["link"], patterns: "target" },
+    ...(import.meta.env.BROWSER === "firefox"
+      ? [
+          {
+            id: "live-folder-bookmark",
+            contexts: ["bookmark"] as Menus.ContextType[],
+            patterns: null,
+          },
+        ]
+      : []),
+  ];
+
+  constructor(lf: LiveFolder, { debug }: { debug: boolean }) {
+    this._lf = lf;
+    this._debug = debug;
+
+    // NOTE: Registered right away, a click may be what woke the worker up
+    browser.contextMenus.onClicked.addListener((info, tab) =>
+      this._onClicked(info, tab),
+    );
+  }
+
+  /**
+   * (Re)creates the menus for pull requests of the given hosts, with a pin
+   * entry for each folder. Does nothing if nothing changed.
+   */
+  public async setup({
+    hosts,
+    folders,
+    updateTimes,
+  }: {
+    hosts: string[];
+    folders: Pick<LiveFolderDefinition, "key" | "name">[];
+    updateTimes: boolean;
+  }) {
+    const setupKey = JSON.stringify({
+      hosts,
+      folders: folders.map(({ key, name }) => [key, name]),
+      updateTimes,
+    });
+    if (setupKey === this._setupKey) return;
+
+    try {
+      await browser.contextMenus.removeAll();
+
+      const urlPatterns = hosts.map((host) => `*://${host}/*/*/pull/*`);
+
+      for (const root of this._ROOTS) {
+        const options = {
+          contexts: root.contexts,
+          ...(root.patterns === "document"
+            ? { documentUrlPatterns: urlPatterns }
+            : root.patterns === "target"
+              ? { targetUrlPatterns: urlPatterns }
+              : {}),
+        };
+        const create = (id: string, title: string, parentId = root.id) =>
+          browser.contextMenus.create({ id, parentId, title, ...options });
+
+        browser.contextMenus.create({
+          id: root.id,
+          title: "Live folder",
+          ...options,
+        });
+
+        create(`${root.id}/pin`, "Pin to live folder");
+        for (const { key, name } of folders) {
+          create(`${root.id}/pin/${key}`, name, `${root.id}/pin`);
+        }
+
+        create(`${root.id}/snooze`, "Snooze");
+        for (const [preset, title] of getSnoozePresets({ updateTimes })) {
+          if (preset === "ignore") continue;
+          create(`${root.id}/snooze/${preset}`, title, `${root.id}/snooze`);
+        }
+
+        create(`${root.id}/ignore`, "Ignore this pull request");
+        browser.contextMenus.create({
+          id: `${root.id}/separator`,
+          parentId: root.id,
+          type: "separator",
+          ...options,
+        });
+        create(`${root.id}/open-all`, "Open all tracked pull requests");
+      }
+
+      this._setupKey = setupKey;
+      if (this._debug) console.log("[CONTEXT-MENU] Set up for", hosts);
+    } catch (error) {
+      console.error("[CONTEXT-MENU] Error setting up menus:", error);
+    }
+  }
+
+  /**
+   * Url and, where it's known, name of the clicked bookmark, link or page.
+   */
+  private async _getClickedItem(
+    info: Menus.OnClickData,
+    tab: { url?: string; title?: string } | undefined,
+  ) {
+    if (info.bookmarkId) {
+      const [bookmark] = await browser.bookmarks.get(info.bookmarkId);
+      return { url: bookmark?.url ?? null, name: bookmark?.title };
+    }
+    if (info.linkUrl) {
+      // NOTE: Links only have a text in Firefox
+      return { url: info.linkUrl, name: info.linkText };
+    }
+    return {
+      url: info.pageUrl ?? tab?.url ?? null,
+      name: this._getPullRequestName(tab?.title),
+    };
+  }
+
+  /**
+   * Name of a pull request from its page title, e.g.
+   * "Fix login by octocat · Pull Request #1 · octo/repo · GitHub".
+   */
+  private _getPullRequestName(title: string | undefined) {
+    const match = title && /^(.+?)(?: by \S+)? · Pull Request #\d+/.exec(title);
+    return match ? match[1] : undefined;
+  }
+
+  private async _onClicked(
+    info: Menus.OnClickData,
+    tab: { url?: string; title?: string } | undefined,
+  ) {
+    try {
+      const [rootId, action, argument] = String(info.menuItemId).split("/");
+      if (!this._ROOTS.some((root) => root.id === rootId)) return;
+
+      if (action === "open-all") {
+        const { pullRequests } = await this._lf.getTrackedPullRequests();
+        await this._lf.openPullRequests(
+          pullRequests.filter((pr) => !pr.snooze).map((pr) => pr.url),
+          { active: false },
+        );
+        return;
+      }
+
+      const clicked = await this._getClickedItem(info, tab);
+      const url = clicked.url && getPullRequestBaseUrl(clicked.url);
+      if (!url) {
+        if (this._debug)
+          console.log("[CONTEXT-MENU] Not a pull request:", clicked.url);
+        return;
+      }
+
+      switch (action) {
+        case "pin":
+          if (!argument) return;
+          await this._lf.pinPullRequest({
+            url,
+            folderKey: argument,
+            name: clicked.name,
+          });
+          break;
+        case "snooze":
+          if (!argument || !Object.hasOwn(SNOOZE_PRESETS, argument)) return;
+          await this._lf.snoozePullRequest(
+            url,
+            getSnoozeRequest(argument as SnoozePreset),
+          );
+          break;
+        case "ignore":
+          await this._lf.snoozePullRequest(url, getSnoozeRequest("ignore"));
+          break;
+      }
+    } catch (error) {
+      console.error("[CONTEXT-MENU] Error handling click:", error);
+    }
+  }
+}
@@ -1,86 +1,332 @@
 import { type Cookies } from "webextension-polyfill";
 import * as cheerio from "cheerio";
 import { onMessage } from "webext-bridge/background";
-import { type PrFilterType } from "./config-handler";
+import {
+  type GithubHost,
+  type PrDataSource,
+  type PrFilterType,
+} from "./config-handler";
+import {
+  type CustomQuery,
+  normalizeSearchQuery,
+  validateSearchQuery,
+} from "./search-query";
+
+export type CiStatus = "success" | "failure" | "pending";
+export type ReviewState = "approved" | "changes_requested" | "review_required";
 
 export type PullRequest = {
+  host: string;
   name: string;
   url: string;
   number: number;
   repository_name: string;
   organization: string;
+  sources: string[]; // ids of the sources that returned the PR
+  // NOTE: Metadata is null when the source didn't provide it
+  author: string | null;
+  isDraft: boolean;
+  ciStatus: CiStatus | null;
+  labels: string[];
+  commentCount: number | null;
+  reviewState: ReviewState | null;
+  createdAt: number | null; // timestamps in ms
+  updatedAt: number | null;
+};
+
+type PullRequestMetadata = Pick<
+  PullRequest,
+  | "author"
+  | "isDraft"
+  | "ciStatus"
+  | "labels"
+  | "commentCount"
+  | "reviewState"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+/**
+ * `complete` is only true when every page of every source was fetched,
+ * otherwise the list must not be used to remove pull requests.
+ */
+export type PullRequestsResult = {
+  pullRequests: PullRequest[];
+  complete: boolean;
+  ssoRequiredHosts: string[]; // hosts with organizations waiting for SSO
+  errors: string[]; // why the list is incomplete, shown to the user
+};
+
+type PrPage = {
+  pullRequests: PullRequest[];
+  next: string | null; // next page url ("html") or cursor ("api")
+  partial: boolean;
+  ssoRequired: boolean;
+};
+
+type PrSource = {
+  id: string; // prFilter value or custom query id
+  path: string; // page scraped by the "html" data source, relative to the host
+  query: string; // search query used by the "api" data source
+};
+
+type GraphQLSearchResponse = {
+  data?: {
+    search: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: Array<{
+        title?: string;
+        url?: string;
+        number?: number;
+        repository?: { name: string; owner: { login: string } };
+        author?: { login: string } | null;
+        isDraft?: boolean;
+        labels?: { nodes: Array<{ name: string }> };
+        comments?: { totalCount: number };
+        reviewDecision?:
+          | "APPROVED"
+          | "CHANGES_REQUESTED"
+          | "REVIEW_REQUIRED"
+          | null;
+        createdAt?: string;
+        updatedAt?: string;
+        commits?: {
+          nodes: Array<{
+            commit: { statusCheckRollup: { state: string } | null };
+          }>;
+        };
+      }>;
+    };
+  };
+  errors?: Array<{ message: string }>;
 };
 
 export class GithubHandler {
   private readonly _debug: boolean;
-  private _isAuthenticated = false;
+  private _authenticatedHosts = new Set<string>();
+  private _dataSource: PrDataSource = "html";
+  private _hosts: GithubHost[] = [{ host: "github.com", token: "" }];
 
-  private readonly _GH_DOMAIN_WITH_SUBDOMAIN = ".github.com";
+  private readonly _GH_DEFAULT_HOST = "github.com";
   private readonly _GH_COOKIE_NAME = "logged_in";
   private readonly _GH_COOKIE_VALUE = "yes";
   private readonly _PR_ROW_CLASS = ".js-issue-row";
   private readonly _PR_TITLE_CLASS = ".js-navigation-open";
-  private readonly _PRS_ASSIGNED_URL = "https://github.com/pulls";
-  private readonly _PRS_REVIEW_REQUESTED_URL =
-    "https://github.com/pulls/review-requested";
+  private readonly _NEXT_PAGE_SELECTOR = 'a.next_page, a[rel="next"]';
+  private readonly _PR_OPENED_BY_SELECTOR = ".opened-by";
+  private readonly _PR_DRAFT_SELECTOR =
+    '.octicon-git-pull-request-draft, [aria-label="Draft Pull Request"]';
+  private readonly _PR_CI_STATUS_SELECTOR = ".commit-build-statuses";
+  private readonly _PR_LABEL_SELECTOR = ".IssueLabel";
+  private readonly _PR_COMMENTS_SELECTOR = 'a[aria-label*="comment"]';
+  private readonly _PR_REVIEW_SELECTOR = 'a[href$="#partial-pull-merging"]';
+  private readonly _API_PAGE_SIZE = 100;
+  // NOTE: The queries mirror what github.com/pulls renders for each page,
+  //       so switching the data source doesn't change the tracked PRs
+  private readonly _PR_SOURCES: Record<
+    Exclude<PrFilterType, "both" | "none">,
+    PrSource
+  > = {
+    assigned: {
+      id: "assigned",
+      path: "/pulls",
+      query: "is:open is:pr author:@me archived:false",
+    },
+    "review-requested": {
+      id: "review-requested",
+      path: "/pulls/review-requested",
+      query: "is:open is:pr review-requested:@me archived:false",
+    },
+  };
 
   constructor({ debug }: { debug: boolean }) {
     this._debug = debug;
 
+    onMessage("PREVIEW_QUERY", async ({ data }) => {
+      const error = validateSearchQuery(data.query);
+      if (error) {
+        return { success: false, error, count: 0, pullRequests: [] };
+      }
+
+      const { pullRequests, complete, errors } = await this.getPullRequests({
+        filter: "none",
+        customQueries: [{ id: "preview", name: "Preview", query: data.query }],
+        maxPages: 1,
+      });
+
+      return {
+        success: complete,
+        error: complete
+          ? null
+          : (errors[0] ?? "Query could not be fetched completely"),
+        count: pullRequests.length,
+        pullRequests: pullRequests.slice(0, 5),
+      };
+    });
+
     onMessage("AUTH_STATE", async () => {
-      const newAuthState = await this.isAuthenticatedFromBrowser();
-      this.updateAuthState(newAuthState);
-      return { isAuthenticated: newAuthState };
+      const newAuthState = await this.refreshAuthState();
+      return {
+        isAuthenticated: newAuthState,
+        hosts: this.getHostAuthStates(),
+      };
     });
 
-    this.isAuthenticatedFromBrowser()
-      .then((newAuthState) => {
-        this.updateAuthState(newAuthState);
-      })
-      .catch((error) => {
-        console.error("[INIT] Error initializing GithubHandler:", error);
-      });
+    this.refreshAuthState().catch((error) => {
+      console.error("[INIT] Error initializing GithubHandler:", error);
+    });
+  }
+
+  /**
+   * Returns whether the auth state of the host changed, so callers can
+   * react to the user signing in or out.
+   */
+  public updateAuthState(host: string, newAuthState: boolean) {
+    if (newAuthState === this._authenticatedHosts.has(host)) return false;
+
+    if (newAuthState) {
+      this._authenticatedHosts.add(host);
+    } else {
+      this._authenticatedHosts.delete(host);
+    }
+    if (this._debug) console.log("[UPDATE-AUTH-STATE]", host, newAuthState);
+    return true;
+  }
+
+  /**
+   * Selects where pull requests are read from: the host pages using the
+   * browser session ("html") or the GraphQL API using each host's personal
+   * access token ("api"). Returns whether the configuration changed.
+   */
+  public configure({
+    dataSource,
+    hosts,
+  }: {
+    dataSource: PrDataSource;
+    hosts: GithubHost[];
+  }) {
+    const changed =
+      dataSource !== this._dataSource ||
+      JSON.stringify(hosts) !== JSON.stringify(this._hosts);
+    this._dataSource = dataSource;
+    this._hosts = hosts;
+
+    if (changed) {
+      // Forget hosts which are no longer configured
+      const configuredHosts = new Set(hosts.map(({ host }) => host));
+      for (const host of this._authenticatedHosts) {
+        if (!configuredHosts.has(host)) this._authenticatedHosts.delete(host);
+      }
+      if (this._debug)
+        console.log("[CONFIGURE]", dataSource, [...configuredHosts]);
+    }
+    return changed;
+  }
+
+  public get dataSource() {
+    return this._dataSource;
+  }
+
+  public get hosts() {
+    return this._hosts.map(({ host }) => host);
+  }
+
+  // NOTE: The lists of the host pages rarely show when a PR was last
+  //       updated, only the API always does
+  public get providesUpdateTimes() {
+    return this._dataSource === "api";
+  }
+
+  public async refreshAuthState() {
+    for (const { host } of this._hosts) {
+      const newAuthState =
+        (await this.hasHostPermission(host)) &&
+        (this._dataSource === "api"
+          ? await this.isAuthenticatedFromToken(host)
+          : await this.isAuthenticatedFromBrowser(host));
+      this.updateAuthState(host, newAuthState);
+    }
+    return this.authenticated;
+  }
+
+  public getHostAuthStates() {
+    return Object.fromEntries(
+      this._hosts.map(({ host }) => [host, this._authenticatedHosts.has(host)]),
+    );
+  }
+
+  public async hasHostPermission(host: string) {
+    const { data: granted, error } = await tryCatch(
+      browser.permissions.contains({ origins: [getHostOrigin(host)] }),
+    );
+    if (error) {
+      console.error("[HAS-HOST-PERMISSION] Error checking", host, error);
+    }
+    if (!granted && this._debug)
+      console.log("[HAS-HOST-PERMISSION] Missing permission for", host);
+    return !!granted;
   }
 
-  public updateAuthState(newAuthState: boolean) {
-    if (newAuthState !== this._isAuthenticated) {
-      this._isAuthenticated = newAuthState;
-      // TODO: Find a way to handle the initial auth state vs user logging in (after logging in user has to wait one minute for the sync)
-      //if (newAuthState) {
-      //  this._lf.syncFolder();
-      //}
+  public async isAuthenticatedFromToken(host: string) {
+    const token = this._getToken(host);
+    if (!token) return false;
+
+    const { data: response, error } = await tryCatch(
+      fetch(this._getAPIUrl(host, "user"), {
+        method: "GET",
+        headers: this._getAPIHeaders(token),
+      }),
+    );
+
+    if (error || !response) {
+      console.error(
+        "[IS-AUTHENTICATED-FROM-TOKEN] Request failed for",
+        host,
+        error,
+      );
+      // Keep the current state on network errors, the token may be fine
+      return this._authenticatedHosts.has(host);
     }
+
+    if (this._debug)
+      console.log("[IS-AUTHENTICATED-FROM-TOKEN]", host, response.status);
+    return response.ok;
   }
 
   public isAuthenticatedFromCookie(cookie: Cookies.Cookie) {
     return (
-      cookie.domain === this._GH_DOMAIN_WITH_SUBDOMAIN &&
-      cookie.name === this._GH_COOKIE_NAME &&
+      this.getHostForAuthCookie(cookie) !== null &&
       cookie.value === this._GH_COOKIE_VALUE
     );
   }
 
-  public async isAuthenticatedFromBrowser() {
-    const cookies = await browser.cookies.getAll({
-      domain: this._GH_DOMAIN_WITH_SUBDOMAIN,
-    });
-    const check = cookies.some((cookie) =>
-      this.isAuthenticatedFromCookie(cookie),
+  public async isAuthenticatedFromBrowser(host: string) {
+    const cookies = await browser.cookies.getAll({ domain: host });
+    const check = cookies.some(
+      (cookie) =>
+        this.getHostForAuthCookie(cookie) === host &&
+        this.isAuthenticatedFromCookie(cookie),
     );
 
-    if (this._debug) console.log("[IS-AUTHENTICATED-FROM-BROWSER]", check);
+    if (this._debug)
+      console.log("[IS-AUTHENTICATED-FROM-BROWSER]", host, check);
     return check;
   }
 
-  public isAuthCookie(cookie: Cookies.Cookie) {
-    return (
-      cookie.domain === this._GH_DOMAIN_WITH_SUBDOMAIN &&
-      cookie.name === this._GH_COOKIE_NAME
-    );
+  /**
+   * Returns the configured host the session cookie belongs to, or null
+   * if it isn't a session cookie of any configured host.
+   */
+  public getHostForAuthCookie(cookie: Cookies.Cookie) {
+    if (cookie.name !== this._GH_COOKIE_NAME) return null;
+
+    // NOTE: github.com scopes the cookie to ".github.com"
+    const domain = cookie.domain.replace(/^\./, "");
+    return this._hosts.some(({ host }) => host === domain) ? domain : null;
   }
 
   public get authenticated() {
-    return this._isAuthenticated;
+    return this._authenticatedHosts.size > 0;
   }
 
   private async _getPRsHTMLPromise(url: string) {
@@ -89,10 +335,295 @@ export class GithubHandler {
       credentials: "include",
     });
 
+    // NOTE: An error page has no PR rows and would look like an empty list
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
     return response.text();
   }
 
-  private async _parsePRsFromHTML(html: string): Promise<PullRequest[]> {
+  private _getToken(host: string) {
+    return this._hosts.find((item) => item.host === host)?.token ?? "";
+  }
+
+  private _getAPIUrl(host: string, endpoint: "graphql" | "user") {
+    // NOTE: GitHub Enterprise Server serves the API from the instance host
+    if (host === this._GH_DEFAULT_HOST) {
+      return `https://api.github.com/${endpoint}`;
+    }
+    return endpoint === "graphql"
+      ? `https://${host}/api/graphql`
+      : `https://${host}/api/v3/user`;
+  }
+
+  private _getAPIHeaders(token: string) {
+    return {
+      Authorization: `bearer ${token}`,
+      "Content-Type": "application/json",
+    };
+  }
+
+  private async _getPRsAPIPromise(
+    host: string,
+    query: string,
+    cursor: string | null,
+  ) {
+    const response = await fetch(this._getAPIUrl(host, "graphql"), {
+      method: "POST",
+      headers: this._getAPIHeaders(this._getToken(host)),
+      body: JSON.stringify({
+        query: `query ($query: String!, $first: Int!, $after: String) {
+          search(query: $query, type: ISSUE, first: $first, after: $after) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              ... on PullRequest {
+                title
+                url
+                number
+                repository { name owner { login } }
+                author { login }
+                isDraft
+                labels(first: 20) { nodes { name } }
+                comments { totalCount }
+                reviewDecision
+                createdAt
+                updatedAt
+                commits(last: 1) {
+                  nodes { commit { statusCheckRollup { state } } }
+                }
+              }
+            }
+          }
+        }`,
+        variables: { query, first: this._API_PAGE_SIZE, after: cursor },
+      }),
+    });
+
+    if (response.status === 401) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`GraphQL request failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as GraphQLSearchResponse;
+  }
+
+  private _parsePRsFromAPI(
+    host: string,
+    response: GraphQLSearchResponse,
+  ): PullRequest[] {
+    if (response.errors?.length) {
+      console.warn(
+        "[PARSE-PRS-FROM-API] GraphQL returned errors:",
+        response.errors.map((error) => error.message),
+      );
+    }
+
+    const pullRequests: PullRequest[] = [];
+
+    for (const node of response.data?.search.nodes ?? []) {
+      // Non-PR nodes (issues) come back as empty objects
+      if (!node.title || !node.url || !node.number || !node.repository)
+        continue;
+
+      pullRequests.push({
+        host,
+        name: node.title.trim(),
+        url: node.url,
+        number: node.number,
+        repository_name: node.repository.name,
+        organization: node.repository.owner.login,
+        sources: [],
+        author: node.author?.login ?? null,
+        isDraft: node.isDraft ?? false,
+        ciStatus: this._toCiStatus(
+          node.commits?.nodes[0]?.commit.statusCheckRollup?.state,
+        ),
+        labels: node.labels?.nodes.map((label) => label.name) ?? [],
+        commentCount: node.comments?.totalCount ?? null,
+        reviewState: this._toReviewState(node.reviewDecision),
+        createdAt: this._toTimestamp(node.createdAt),
+        updatedAt: this._toTimestamp(node.updatedAt),
+      });
+    }
+
+    return pullRequests;
+  }
+
+  private _toCiStatus(value: string | null | undefined): CiStatus | null {
+    switch (value?.toUpperCase()) {
+      case "SUCCESS":
+        return "success";
+      case "FAILURE":
+      case "ERROR":
+        return "failure";
+      case "PENDING":
+      case "EXPECTED":
+        return "pending";
+      default:
+        return null;
+    }
+  }
+
+  private _toReviewState(value: string | null | undefined): ReviewState | null {
+    const normalized = value
+      ?.toLowerCase()
+      .trim()
+      .replace(/[\s-]+/g, "_");
+    if (!normalized) return null;
+    if (normalized.includes("approved")) return "approved";
+    if (normalized.includes("changes_requested")) return "changes_requested";
+    if (normalized.includes("review_required")) return "review_required";
+    return null;
+  }
+
+  private _toTimestamp(value: string | null | undefined) {
+    if (!value) return null;
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+
+  /**
+   * Returns a single page of a source, or null when the host reported
+   * that the user is no longer authenticated. Throws on request errors.
+   */
+  private async _fetchPRsPage(
+    host: string,
+    source: PrSource,
+    next: string | null,
+  ): Promise<PrPage | null> {
+    if (this._dataSource === "api") {
+      const response = await this._getPRsAPIPromise(host, source.query, next);
+
+      if (!response) {
+        console.warn("[GET-PULL-REQUESTS] API token was rejected by", host);
+        return null;
+      }
+
+      const pageInfo = response.data?.search.pageInfo;
+      return {
+        pullRequests: this._parsePRsFromAPI(host, response),
+        next: pageInfo?.hasNextPage ? pageInfo.endCursor : null,
+        // GraphQL omits results it failed to resolve (e.g. SAML protected orgs)
+        partial: !!response.errors?.length,
+        ssoRequired: !!response.errors?.some(({ message }) =>
+          /SAML|SSO/.test(message),
+        ),
+      };
+    }
+
+    const url = next ?? `https://${host}${source.path}`;
+    const html = await this._getPRsHTMLPromise(url);
+
+    // An organization asking for SSO still leaves the user logged in
+    if (this._isSsoPage(html) && !this._isLoginPage(html)) {
+      console.warn("[GET-PULL-REQUESTS] SSO required on", host);
+      return { pullRequests: [], next: null, partial: true, ssoRequired: true };
+    }
+
+    // Check if we received a login/SSO page instead of PR list
+    if (this._isLoginOrSsoPage(html)) {
+      console.warn(
+        "[GET-PULL-REQUESTS] SSO required - received login page instead of PR list from",
+        host,
+      );
+      return null;
+    }
+
+    return {
+      pullRequests: await this._parsePRsFromHTML(host, html),
+      next: this._getNextPageUrl(html, url),
+      partial: false,
+      ssoRequired: false,
+    };
+  }
+
+  /**
+   * Follows the pagination of a single source on a host up to `maxPages`
+   * pages. Returns null when the host reported that the user is no longer
+   * authenticated.
+   */
+  private async _fetchPRsFromSource(
+    host: string,
+    source: PrSource,
+    maxPages: number,
+  ): Promise<PullRequestsResult | null> {
+    const pullRequests: PullRequest[] = [];
+    let complete = true;
+    let ssoRequired = false;
+    let next = null as string | null;
+
+    for (let page = 1; page <= maxPages; page++) {
+      const { data: result, error } = await tryCatch(
+        this._fetchPRsPage(host, source, next),
+      );
+
+      if (error) {
+        console.error(
+          "[GET-PULL-REQUESTS] Error fetching page",
+          page,
+          "of",
+          this._dataSource === "api" ? source.query : source.path,
+          "from",
+          host,
+          error,
+        );
+        return {
+          pullRequests,
+          complete: false,
+          ssoRequiredHosts: ssoRequired ? [host] : [],
+          errors: [
+            `Could not fetch page ${page} of ${source.id} from ${host}: ${error.message}`,
+          ],
+        };
+      }
+
+      if (!result) return null;
+
+      pullRequests.push(...result.pullRequests);
+      complete &&= !result.partial;
+      ssoRequired ||= result.ssoRequired;
+
+      if (!result.next) {
+        return {
+          pullRequests,
+          complete,
+          ssoRequiredHosts: ssoRequired ? [host] : [],
+          errors: [],
+        };
+      }
+      next = result.next;
+    }
+
+    console.warn(
+      "[GET-PULL-REQUESTS] Reached the limit of",
+      maxPages,
+      "pages for",
+      this._dataSource === "api" ? source.query : source.path,
+      "on",
+      host,
+    );
+    return {
+      pullRequests,
+      complete: false,
+      ssoRequiredHosts: ssoRequired ? [host] : [],
+      errors: [],
+    };
+  }
+
+  private _getNextPageUrl(html: string, currentUrl: string) {
+    const $ = cheerio.load(html);
+    const href = $(this._NEXT_PAGE_SELECTOR).first().attr("href");
+    return href ? new URL(href, currentUrl).toString() : null;
+  }
+
+  private async _parsePRsFromHTML(
+    host: string,
+    html: string,
+  ): Promise<PullRequest[]> {
     const pullRequests: PullRequest[] = [];
     const $ = cheerio.load(html);
 
@@ -107,38 +638,151 @@ export class GithubHandler {
       const number = parseInt(urlParts[urlParts.length - 1]);
       const repository_name = urlParts[urlParts.length - 3];
       const organization = urlParts[urlParts.length - 4];
-      const url = `https://github.com${urlAttr}`;
-
-      pullRequests.push({ name, url, number, repository_name, organization });
+      const url = `https://${host}${urlAttr}`;
+
+      pullRequests.push({
+        host,
+        name,
+        url,
+        number,
+        repository_name,
+        organization,
+        sources: [],
+        ...this._parseMetadataFromHTML($(item)),
+      });
     });
 
     return pullRequests;
   }
 
-  public async getPullRequests(
-    filter: PrFilterType = "both",
-    organizationFilter: string = "",
-  ) {
-    const newAuthState = await this.isAuthenticatedFromBrowser();
-    this.updateAuthState(newAuthState);
+  /**
+   * Reads the metadata rendered in a PR row. Every field is parsed on its
+   * own, so a markup change only loses the affected field.
+   */
+  private _parseMetadataFromHTML(
+    row: ReturnType<cheerio.CheerioAPI>,
+  ): PullRequestMetadata {
+    const parseField = <T>(field: string, fallback: T, parse: () => T) => {
+      try {
+        return parse() ?? fallback;
+      } catch (error) {
+        if (this._debug)
+          console.log("[PARSE-PRS-FROM-HTML] Could not parse", field, error);
+        return fallback;
+      }
+    };
+
+    const openedBy = row.find(this._PR_OPENED_BY_SELECTOR);
+    const createdAt = parseField("createdAt", null, () =>
+      this._toTimestamp(openedBy.find("relative-time").attr("datetime")),
+    );
 
-    if (!this._isAuthenticated) {
+    return {
+      author: parseField(
+        "author",
+        null,
+        () => openedBy.find("a").last().text().trim() || null,
+      ),
+      isDraft: parseField(
+        "isDraft",
+        false,
+        () => row.find(this._PR_DRAFT_SELECTOR).length > 0,
+      ),
+      ciStatus: parseField("ciStatus", null, () => {
+        const statuses = row.find(this._PR_CI_STATUS_SELECTOR);
+        if (statuses.find(".octicon-x").length) return "failure";
+        if (statuses.find(".octicon-dot-fill").length) return "pending";
+        if (statuses.find(".octicon-check").length) return "success";
+        return null;
+      }),
+      labels: parseField("labels", [], () =>
+        row
+          .find(this._PR_LABEL_SELECTOR)
+          .map((_, label) => row.find(label).text().trim())
+          .get()
+          .filter((label) => label.length > 0),
+      ),
+      commentCount: parseField("commentCount", null, () => {
+        const comments = row.find(this._PR_COMMENTS_SELECTOR).first();
+        // NOTE: Rows without comments don't render the counter
+        if (!comments.length) return 0;
+        const count = parseInt(comments.text().trim());
+        return Number.isNaN(count) ? null : count;
+      }),
+      reviewState: parseField("reviewState", null, () =>
+        this._toReviewState(row.find(this._PR_REVIEW_SELECTOR).first().text()),
+      ),
+      createdAt,
+      updatedAt: parseField("updatedAt", null, () =>
+        this._toTimestamp(
+          row
+            .find("relative-time")
+            .not(openedBy.find("relative-time"))
+            .first()
+            .attr("datetime"),
+        ),
+      ),
+    };
+  }
+
+  private _getCustomQuerySource({ id, query }: CustomQuery): PrSource {
+    const normalized = normalizeSearchQuery(query);
+    return {
+      id,
+      path: `/pulls?q=${encodeURIComponent(normalized)}`,
+      query: normalized,
+    };
+  }
+
+  public async getPullRequests({
+    filter = "both",
+    organizationFilter = "",
+    maxPages = 10,
+    customQueries = [],
+  }: {
+    filter?: PrFilterType;
+    organizationFilter?: string;
+    maxPages?: number;
+    customQueries?: CustomQuery[];
+  } = {}): Promise<PullRequestsResult> {
+    await this.refreshAuthState();
+
+    if (!this.authenticated) {
       console.log("User is unauthenticated");
-      return [];
+      return {
+        pullRequests: [],
+        complete: false,
+        ssoRequiredHosts: [],
+        errors: ["Not signed in"],
+      };
     }
 
-    const urlsToFetch: string[] = [];
+    const sourcesToFetch: PrSource[] = [];
 
     if (filter === "assigned" || filter === "both") {
-      urlsToFetch.push(this._PRS_ASSIGNED_URL);
+      sourcesToFetch.push(this._PR_SOURCES.assigned);
     }
 
     if (filter === "review-requested" || filter === "both") {
-      urlsToFetch.push(this._PRS_REVIEW_REQUESTED_URL);
+      sourcesToFetch.push(this._PR_SOURCES["review-requested"]);
+    }
+
+    for (const customQuery of customQueries) {
+      if (validateSearchQuery(customQuery.query)) {
+        console.warn(
+          "[GET-PULL-REQUESTS] Skipping invalid query",
+          customQuery.name,
+        );
+        continue;
+      }
+      sourcesToFetch.push(this._getCustomQuerySource(customQuery));
     }
 
     const allPullRequests: PullRequest[] = [];
-    const seenUrls = new Set<string>();
+    const seenUrls = new Map<string, PullRequest>();
+    let complete = true;
+    const ssoRequiredHosts = new Set<string>();
+    const errors: string[] = [];
 
     // Parse organization filter into a set for fast lookup
     const allowedOrgs = new Set(
@@ -149,41 +793,42 @@ export class GithubHandler {
     );
     const hasOrgFilter = allowedOrgs.size > 0;
 
-    for (const url of urlsToFetch) {
-      const { data: html, error: htmlError } = await tryCatch(
-        this._getPRsHTMLPromise(url),
-      );
-
-      if (htmlError || !html) {
-        console.error(
-          "[GET-PULL-REQUESTS] Error fetching from",
-          url,
-          htmlError,
-        );
-        continue;
-      }
+    // PRs of all authenticated hosts end up in the same list
+    for (const host of this._authenticatedHosts) {
+      for (const source of sourcesToFetch) {
+        const result = await this._fetchPRsFromSource(host, source, maxPages);
 
-      // Check if we received a login/SSO page instead of PR list
-      if (this._isLoginOrSsoPage(html)) {
-        console.warn(
-          "[GET-PULL-REQUESTS] SSO required - received login page instead of PR list",
-        );
-        this._isAuthenticated = false;
-        return [];
-      }
+        if (!result) {
+          this.updateAuthState(host, false);
+          complete = false;
+          errors.push(`Signed out of ${host}`);
+          break;
+        }
 
-      const prs = await this._parsePRsFromHTML(html);
+        complete &&= result.complete;
+        errors.push(...result.errors);
+        for (const ssoHost of result.ssoRequiredHosts) {
+          ssoRequiredHosts.add(ssoHost);
+        }
 
-      // Deduplicate PRs by URL and filter by organization
-      for (const pr of prs) {
-        if (!seenUrls.has(pr.url)) {
-          // Apply organization filter if set
-          if (hasOrgFilter && !allowedOrgs.has(pr.organization.toLowerCase())) {
-            continue;
+        // Deduplicate PRs by URL and filter by organization
+        for (const pr of result.pullRequests) {
+          const seen = seenUrls.get(pr.url);
+          if (seen) {
+            if (!seen.sources.includes(source.id)) seen.sources.push(source.id);
+          } else {
+            // Apply organization filter if set
+            if (
+              hasOrgFilter &&
+              !allowedOrgs.has(pr.organization.toLowerCase())
+            ) {
+              continue;
+            }
+
+            pr.sources = [source.id];
+            seenUrls.set(pr.url, pr);
+            allPullRequests.push(pr);
           }
-
-          seenUrls.add(pr.url);
-          allPullRequests.push(pr);
         }
       }
     }
@@ -194,12 +839,35 @@ export class GithubHandler {
         allPullRequests.length,
         "PRs with filter:",
         filter,
+        "source:",
+        this._dataSource,
+        "hosts:",
+        [...this._authenticatedHosts],
+        "queries:",
+        customQueries.length,
         "orgs:",
         organizationFilter || "all",
+        "complete:",
+        complete,
       );
     }
 
-    return allPullRequests;
+    return {
+      pullRequests: allPullRequests,
+      complete,
+      ssoRequiredHosts: [...ssoRequiredHosts],
+      errors,
+    };
+  }
+
+  private _isLoginPage(html: string): boolean {
+    const $ = cheerio.load(html);
+    return $('form[action*="/session"], .auth-form, #login').length > 0;
+  }
+
+  private _isSsoPage(html: string): boolean {
+    const $ = cheerio.load(html);
+    return $('a[href*="sso"], a[href*="saml"]').length > 0;
   }
 
   private _isLoginOrSsoPage(html: string): boolean {
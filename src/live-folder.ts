@@ -1,6 +1,59 @@
+import { onMessage } from "webext-bridge/background";
+import { type Bookmarks } from "webextension-polyfill";
 import { GithubHandler, type PullRequest } from "./github-handler";
-import { ConfigHandler } from "./config-handler";
+import {
+  ConfigHandler,
+  type BookmarkGrouping,
+  type HeaderLink,
+  type LiveFolderDefinition,
+  type RemovalGrace,
+} from "./config-handler";
 import { TabGroupHandler } from "./tab-group-handler";
+import { type CustomQuery } from "./search-query";
+import { NotificationHandler } from "./notification-handler";
+import {
+  PullRequestStore,
+  getPullRequestStatus,
+  type TrackedPullRequest,
+} from "./pull-request-store";
+import { type NamedPullRequest } from "./pr-name-template";
+import { sortPullRequests } from "./pr-sort";
+import { BadgeHandler } from "./badge-handler";
+import { SnoozeHandler } from "./snooze-handler";
+import { isSnoozeActive, type Snooze, type SnoozeRequest } from "./snooze";
+import { ContextMenuHandler } from "./context-menu-handler";
+import { CommandHandler } from "./command-handler";
+import { PinHandler } from "./pin-handler";
+import { OmniboxHandler } from "./omnibox-handler";
+import { UpdateHandler } from "./update-handler";
+import { RemovalHandler, type RemovedPullRequest } from "./removal-handler";
+import {
+  SyncJournalHandler,
+  type JournalSummary,
+} from "./sync-journal-handler";
+import { OwnershipHandler } from "./ownership-handler";
+
+export type FolderSyncStatus = {
+  key: string;
+  name: string;
+  lastSync: number | null; // last sync without errors
+  prCount: number;
+  errors: string[]; // of the last sync
+};
+
+export type SyncStatus = {
+  syncing: boolean;
+  lastSync: number | null; // most recent sync without errors of any folder
+  prCount: number; // tracked and not snoozed, each PR once
+  error: string | null; // of the last sync as a whole, e.g. signed out
+  folders: FolderSyncStatus[];
+  undo: JournalSummary | null; // last sync which added or removed anything
+};
+
+// NOTE: Served to the popup with the name of the folder it was removed from
+export type RecentlyRemovedPullRequest = RemovedPullRequest & {
+  folder: string;
+};
 
 export class LiveFolder {
   private static _instance: LiveFolder;
@@ -8,67 +61,331 @@ export class LiveFolder {
   private readonly _debug: boolean;
   private _alarmListenerSetup = false;
   private _isSyncing = false;
+  private _foldersSetup = false;
+  private _seenListenerSetup = false;
+  // NOTE: Definition keys requested while syncing, null stands for all of them
+  private readonly _pendingSyncs = new Set<string | null>();
+  // NOTE: Hosts asking for SSO in the last sync of each definition
+  private readonly _ssoRequiredHosts = new Map<string, string[]>();
+  // NOTE: Errors of the last sync of each definition, and of the sync itself
+  private readonly _syncErrors = new Map<string, string[]>();
+  private _lastSyncError: string | null = null;
 
   private readonly _githubHandler: GithubHandler;
   private readonly _configHandler: ConfigHandler;
   private readonly _tabGroupHandler: TabGroupHandler;
+  private readonly _notificationHandler: NotificationHandler;
+  private readonly _prStore: PullRequestStore;
+  private readonly _badgeHandler: BadgeHandler;
+  private readonly _snoozeHandler: SnoozeHandler;
+  private readonly _contextMenuHandler: ContextMenuHandler;
+  private readonly _commandHandler: CommandHandler;
+  private readonly _pinHandler: PinHandler;
+  private readonly _omniboxHandler: OmniboxHandler;
+  private readonly _updateHandler: UpdateHandler;
+  private readonly _removalHandler: RemovalHandler;
+  private readonly _journalHandler: SyncJournalHandler;
+  private readonly _ownershipHandler: OwnershipHandler;
 
+  // NOTE: Each folder definition gets its own alarm, "<name>:<key>"
   private readonly _alarms = {
     UPDATE_PRS: "update-pull-requests",
+    SNOOZE_EXPIRED: "snooze-expired",
   } as const;
 
+  // NOTE: Subfolder names of the built-in sources when grouping by source
+  private readonly _SOURCE_FOLDER_NAMES: Record<string, string> = {
+    assigned: "Assigned to me",
+    "review-requested": "Review requested",
+    pinned: "Pinned",
+  };
+
+  // NOTE: Subfolder of each bookmark folder with its recently removed PRs
+  private readonly _RECENTLY_REMOVED_FOLDER_NAME = "Recently removed";
+
   private constructor() {
     this._debug = true;
     this._githubHandler = new GithubHandler({
       debug: this._debug,
     });
     this._configHandler = new ConfigHandler(this, this._githubHandler);
-    this._tabGroupHandler = new TabGroupHandler({
+    this._ownershipHandler = new OwnershipHandler({
+      debug: this._debug,
+    });
+    this._journalHandler = new SyncJournalHandler(this._ownershipHandler, {
+      debug: this._debug,
+    });
+    this._tabGroupHandler = new TabGroupHandler(
+      this._journalHandler,
+      this._ownershipHandler,
+      { debug: this._debug },
+    );
+    this._notificationHandler = new NotificationHandler({
+      debug: this._debug,
+    });
+    this._prStore = new PullRequestStore({
+      debug: this._debug,
+    });
+    this._badgeHandler = new BadgeHandler({
+      debug: this._debug,
+    });
+    this._snoozeHandler = new SnoozeHandler({
+      debug: this._debug,
+    });
+    this._contextMenuHandler = new ContextMenuHandler(this, {
+      debug: this._debug,
+    });
+    this._commandHandler = new CommandHandler(this, {
+      debug: this._debug,
+    });
+    this._pinHandler = new PinHandler({
+      debug: this._debug,
+    });
+    this._omniboxHandler = new OmniboxHandler(this, {
+      debug: this._debug,
+    });
+    this._updateHandler = new UpdateHandler({
+      debug: this._debug,
+    });
+    this._removalHandler = new RemovalHandler({
       debug: this._debug,
     });
+
+    onMessage("GET_PULL_REQUESTS", async () => {
+      try {
+        return await this.getTrackedPullRequests();
+      } catch (error) {
+        console.error(
+          "[GET-PULL-REQUESTS] Error reading pull requests:",
+          error,
+        );
+        return {
+          pullRequests: [],
+          recentlyRemoved: [],
+          lastUpdate: null,
+          updateTimes: false,
+        };
+      }
+    });
+
+    onMessage("SYNC_NOW", async () => {
+      // NOTE: Doesn't wait for the sync, the popup polls the status instead
+      void this.syncFolder().catch((error) => {
+        console.error("[SYNC-NOW] Error syncing:", error);
+        this._lastSyncError = `Sync failed: ${this._getErrorMessage(error)}`;
+      });
+      return await this.getSyncStatus();
+    });
+
+    onMessage("GET_SYNC_STATUS", async () => await this.getSyncStatus());
+
+    onMessage("UNDO_LAST_SYNC", async () => {
+      try {
+        return { success: await this.undoLastSync() };
+      } catch (error) {
+        console.error("[UNDO] Error undoing the last sync:", error);
+        return { success: false };
+      }
+    });
+
+    onMessage("MARK_SEEN", async ({ data }) => {
+      try {
+        await this._onVisited(data.url);
+        return { success: true };
+      } catch (error) {
+        console.error("[MARK-SEEN] Error marking pull request as seen:", error);
+        return { success: false };
+      }
+    });
+
+    onMessage("PIN_PULL_REQUEST", async ({ data }) => {
+      try {
+        await this.pinPullRequest(data);
+        return { success: true };
+      } catch (error) {
+        console.error("[PIN] Error pinning pull request:", error);
+        return { success: false };
+      }
+    });
+
+    onMessage("RESTORE_PULL_REQUEST", async ({ data }) => {
+      try {
+        await this.restorePullRequest(data);
+        return { success: true };
+      } catch (error) {
+        console.error("[RESTORE] Error restoring pull request:", error);
+        return { success: false };
+      }
+    });
+
+    onMessage("SNOOZE_PULL_REQUEST", async ({ data }) => {
+      try {
+        await this.snoozePullRequest(data.url, data.snooze);
+        return { success: true };
+      } catch (error) {
+        console.error("[SNOOZE] Error snoozing pull request:", error);
+        return { success: false };
+      }
+    });
   }
 
   static getInstance() {
     return (this._instance ??= new LiveFolder());
   }
 
+  // NOTE: Snoozing until a PR is updated needs them
+  public get providesUpdateTimes() {
+    return this._githubHandler.providesUpdateTimes;
+  }
+
   public async init() {
     if (this._initialized) return;
 
     try {
-      await this._configHandler.ensureSettings();
-
-      if (this._githubHandler.authenticated) {
-        if (this._configHandler.supportsTabGroups()) {
-          // Chrome: Tab groups
-          const settings = await this._configHandler.getSettings();
-          const groupId = await this._tabGroupHandler.ensureTabGroup({
-            title: settings.name,
-            color: settings.tabGroupColor,
-            groupId: settings.tabGroupId,
-          });
-          await this._configHandler.setSettings({ tabGroupId: groupId });
-        } else {
-          // Firefox: Bookmarks
-          const folder = await this._configHandler.ensureFolder();
-          if (!folder) {
-            console.error("[INIT]: Failed to create or retrieve folder");
-            return;
-          }
-        }
+      const initialSettings = await this._configHandler.ensureSettings();
+      this._githubHandler.configure({
+        dataSource: initialSettings.dataSource,
+        hosts: initialSettings.githubHosts,
+      });
+      this._tabGroupHandler.setHosts(this._githubHandler.hosts);
+      await this._contextMenuHandler.setup({
+        hosts: this._githubHandler.hosts,
+        folders: initialSettings.folders,
+        updateTimes: this._githubHandler.providesUpdateTimes,
+      });
+      await this._githubHandler.refreshAuthState();
 
-        await this._setupAlarms();
-        await this.syncFolder();
+      this._setupSeenListener();
+
+      if (this._githubHandler.authenticated && !(await this._setupFolders())) {
+        return;
       }
 
+      // NOTE: Marked before the first sync, which waits for it
       this._initialized = true;
+      if (this._githubHandler.authenticated) await this.syncFolder();
+
+      await this.updateBadge();
       console.log("[INIT]: Live Folder initialized");
     } catch (error) {
       console.error("[INIT]: Error initializing Live Folder:", error);
     }
   }
 
-  public async syncFolder() {
+  /**
+   * Creates the bookmark folders or tab groups and the alarms of all
+   * definitions, once the user is signed in. Returns false on failure.
+   */
+  private async _setupFolders() {
+    const { folders } = await this._configHandler.getSettings();
+
+    for (const definition of folders) {
+      if (this._configHandler.supportsTabGroups()) {
+        // Chrome: Tab groups
+        const groupId = await this._tabGroupHandler.ensureTabGroup({
+          title: definition.name,
+          color: definition.tabGroupColor,
+          groupId: definition.tabGroupId,
+        });
+        await this._configHandler.setFolderDefinition(definition.key, {
+          tabGroupId: groupId,
+        });
+      } else {
+        // Firefox: Bookmarks
+        const folder = await this._configHandler.ensureFolder(definition.key);
+        if (!folder) {
+          console.error(
+            "[SETUP-FOLDERS]: Failed to create or retrieve folder",
+            definition.name,
+          );
+          return false;
+        }
+      }
+    }
+
+    if (!(await this._ownershipHandler.isInitialized())) {
+      await this._adoptExistingItems();
+    }
+
+    await this._setupAlarms();
+    this._foldersSetup = true;
+    return true;
+  }
+
+  // NOTE: Earlier versions didn't record what they created. Their PR
+  //       bookmarks and tabs, and the subfolders they sorted them into, are
+  //       taken to be the extension's.
+  private async _adoptExistingItems() {
+    const { folders } = await this._configHandler.getSettings();
+    const isPrUrl = (url: string | undefined) =>
+      !!url && isPullRequestUrl(url, this._githubHandler.hosts);
+    const bookmarkIds: string[] = [];
+    const tabs: Array<{ id: number; url: string }> = [];
+
+    for (const definition of folders) {
+      if (this._configHandler.supportsTabGroups()) {
+        if (definition.tabGroupId === -1) continue;
+        for (const tab of await chrome.tabs.query({
+          groupId: definition.tabGroupId,
+        })) {
+          if (tab.id !== undefined && isPrUrl(tab.url))
+            tabs.push({ id: tab.id, url: tab.url! });
+        }
+        continue;
+      }
+
+      const folder = await this._configHandler.getFolder(definition.key);
+      if (!folder) continue;
+      for (const child of await browser.bookmarks.getChildren(folder.id)) {
+        if (isPrUrl(child.url)) bookmarkIds.push(child.id);
+        if (child.url) continue;
+
+        bookmarkIds.push(child.id);
+        for (const bookmark of await browser.bookmarks.getChildren(child.id)) {
+          if (isPrUrl(bookmark.url)) bookmarkIds.push(bookmark.id);
+        }
+      }
+    }
+
+    await this._ownershipHandler.adopt({ bookmarkIds, tabs });
+  }
+
+  /**
+   * Reacts to the user signing in to or out of a host. Signing in sets up
+   * what a signed out start skipped and syncs right away, signing out of
+   * every host pauses the syncs and leaves the tracked items in place.
+   */
+  public async onAuthStateChanged({
+    host,
+    authenticated,
+  }: {
+    host: string;
+    authenticated: boolean;
+  }) {
+    try {
+      if (this._debug) console.log("[AUTH-STATE-CHANGED]", host, authenticated);
+      if (!this._initialized) return;
+
+      if (authenticated) {
+        // NOTE: The sync sets up the folders and alarms first if needed
+        await this.syncFolder();
+      } else if (!this._githubHandler.authenticated) {
+        await this._clearUpdateAlarms();
+        this._foldersSetup = false;
+        this._lastSyncError = "Signed out, syncing is paused";
+        await this.updateBadge();
+      } else {
+        await this.updateBadge();
+      }
+    } catch (error) {
+      console.error("[AUTH-STATE-CHANGED] Error handling auth change:", error);
+    }
+  }
+
+  /**
+   * Syncs the folder definition with the given key, or all of them.
+   */
+  public async syncFolder(key?: string) {
     // Wait for initialization to complete
     if (!this._initialized) {
       if (this._debug)
@@ -87,74 +404,292 @@ export class LiveFolder {
       }
     }
 
-    // Prevent concurrent syncs
+    // Prevent concurrent syncs, the definition is synced once the current one is done
     if (this._isSyncing) {
       if (this._debug)
-        console.log("[SYNC-FOLDER] Already syncing, skipping this call");
+        console.log("[SYNC-FOLDER] Already syncing, queueing", key ?? "all");
+      this._pendingSyncs.add(key ?? null);
       return;
     }
 
     this._isSyncing = true;
+    this._journalHandler.begin();
 
     try {
-      if (this._debug) console.log("[SYNC-FOLDER] Starting sync");
+      if (this._debug) console.log("[SYNC-FOLDER] Starting sync", key ?? "all");
+
+      const settings = await this._configHandler.getSettings();
+
+      // Settings may have switched the data source or hosts since the last sync
+      const dataSourceChanged = this._githubHandler.configure({
+        dataSource: settings.dataSource,
+        hosts: settings.githubHosts,
+      });
+      if (dataSourceChanged) {
+        this._tabGroupHandler.setHosts(this._githubHandler.hosts);
+        await this._githubHandler.refreshAuthState();
+      }
+      // NOTE: Only rebuilt when the hosts or folders changed
+      await this._contextMenuHandler.setup({
+        hosts: this._githubHandler.hosts,
+        folders: settings.folders,
+        updateTimes: this._githubHandler.providesUpdateTimes,
+      });
 
       if (!this._githubHandler.authenticated) {
         if (this._debug)
           console.log("[SYNC-FOLDER] Not authenticated, skipping sync");
+        this._lastSyncError = "Not signed in, pull requests can't be fetched";
         return;
       }
+      this._lastSyncError = null;
 
-      const settings = await this._configHandler.getSettings();
+      // Signed in after a signed out start, e.g. with a new token
+      if (!this._foldersSetup && !(await this._setupFolders())) return;
+
+      const definitions = key
+        ? settings.folders.filter((folder) => folder.key === key)
+        : settings.folders;
+
+      // NOTE: A PR tracked by several definitions is only notified once
+      const newPullRequests = new Map<string, PullRequest>();
+      for (const definition of definitions) {
+        const definitionPullRequests = await this._syncDefinition({
+          definition,
+          maxPages: settings.maxPages,
+          removalGrace: settings.removalGrace,
+        });
+        for (const pr of definitionPullRequests)
+          newPullRequests.set(pr.url, pr);
+      }
+
+      await this._notificationHandler.notifyNewPullRequests({
+        pullRequests: [...newPullRequests.values()],
+        quietHours: settings.quietHours,
+      });
+
+      if (this._configHandler.supportsTabGroups()) {
+        await this._positionTabGroups();
+      }
+
+      await this._scheduleSnoozeAlarm();
+
+      if (this._debug) console.log("[SYNC-FOLDER] Sync completed successfully");
+    } catch (error) {
+      console.error("[SYNC-FOLDER] Error syncing folder:", error);
+      this._lastSyncError = `Sync failed: ${this._getErrorMessage(error)}`;
+    } finally {
+      await this._journalHandler.commit();
+      this._isSyncing = false;
+    }
+
+    await this.updateBadge();
+    this._updateHandler.notifyPullRequestsChanged();
+    await this._runPendingSyncs();
+  }
+
+  /**
+   * Reverts the bookmarks and tabs the last sync which added or removed
+   * anything changed, and the PRs it stored or removed. Returns false while
+   * syncing.
+   */
+  public async undoLastSync() {
+    if (this._isSyncing) return false;
+
+    this._isSyncing = true;
+    try {
+      const snapshots = await this._journalHandler.undo();
+      if (!snapshots) return false;
+
+      for (const [key, { pullRequests, removals }] of Object.entries(
+        snapshots,
+      )) {
+        if (pullRequests) {
+          await this._prStore.set(key, pullRequests);
+        } else {
+          await this._prStore.remove(key);
+        }
+        await this._removalHandler.restoreFolderState(key, removals);
+      }
+      if (this._debug) console.log("[UNDO] Undid the last sync");
+    } finally {
+      this._isSyncing = false;
+    }
+
+    await this.updateBadge();
+    this._updateHandler.notifyPullRequestsChanged();
+    await this._runPendingSyncs();
+    return true;
+  }
+
+  private async _runPendingSyncs() {
+    if (this._pendingSyncs.size > 0) {
+      const pending = [...this._pendingSyncs];
+      this._pendingSyncs.clear();
+
+      if (pending.includes(null)) {
+        await this.syncFolder();
+      } else {
+        for (const pendingKey of pending) {
+          await this.syncFolder(pendingKey!);
+        }
+      }
+    }
+  }
+
+  /**
+   * Syncs a single definition and returns its new PRs to notify about.
+   * Snoozed PRs are stored but kept out of the folder and notifications.
+   */
+  private async _syncDefinition({
+    definition,
+    maxPages,
+    removalGrace,
+  }: {
+    definition: LiveFolderDefinition;
+    maxPages: number;
+    removalGrace: RemovalGrace;
+  }): Promise<PullRequest[]> {
+    const errors: string[] = [];
+    this._syncErrors.set(definition.key, errors);
+
+    try {
+      if (this._debug) console.log("[SYNC-DEFINITION]", definition.name);
+
+      const {
+        pullRequests: fetchedPullRequests,
+        complete,
+        ssoRequiredHosts,
+        errors: fetchErrors,
+      } = await this._githubHandler.getPullRequests({
+        filter: definition.prFilter,
+        organizationFilter: definition.organizationFilter,
+        maxPages,
+        customQueries: definition.customQueries,
+      });
+      if (!complete && this._debug) {
+        console.log(
+          "[SYNC-DEFINITION] Incomplete pull request list, skipping removals",
+        );
+      }
+      this._ssoRequiredHosts.set(definition.key, ssoRequiredHosts);
+      errors.push(
+        ...fetchErrors,
+        ...ssoRequiredHosts.map(
+          (host) =>
+            `SSO required on ${host}, some pull requests could be missing`,
+        ),
+      );
 
-      const pullRequests = await this._githubHandler.getPullRequests(
-        settings.prFilter,
-        settings.organizationFilter,
+      // NOTE: Taken before anything of the definition changes
+      this._journalHandler.snapshot(definition.key, {
+        pullRequests: await this._prStore.get(definition.key),
+        removals: await this._removalHandler.getFolderState(definition.key),
+      });
+
+      const merged = await this._pinHandler.mergePinned(
+        definition.key,
+        fetchedPullRequests,
       );
-      if (!pullRequests) {
-        if (this._debug) console.log("[SYNC-FOLDER] No pull requests found");
-        return;
+      // NOTE: A partial fetch keeps the PRs it didn't see anyway
+      const pullRequests = complete
+        ? await this._removalHandler.holdMissing({
+            folderKey: definition.key,
+            previous: (await this._prStore.get(definition.key)) ?? [],
+            pullRequests: merged,
+            grace: removalGrace,
+          })
+        : merged;
+      const { visible, snoozed } =
+        await this._snoozeHandler.filterPullRequests(pullRequests);
+      if (snoozed.length > 0 && this._debug) {
+        console.log("[SYNC-DEFINITION] Snoozed pull requests:", snoozed.length);
       }
 
-      const updatePrsAlarm = await browser.alarms.get(this._alarms.UPDATE_PRS);
-      if (settings.refreshInterval !== updatePrsAlarm?.periodInMinutes) {
-        await this.updateRefreshInterval(settings.refreshInterval);
+      // NOTE: Read before storing, which drops the records of removed PRs
+      const lastVisits = new Map<string, number>();
+      for (const [url, { lastVisited }] of Object.entries(
+        await this._prStore.getRecords(),
+      )) {
+        if (lastVisited !== null) lastVisits.set(url, lastVisited);
+      }
+
+      // NOTE: Stored first, so the records know the PRs new in this sync
+      const newPullRequests = await this._storePullRequests({
+        definition,
+        pullRequests,
+        complete,
+      });
+      const records = await this._prStore.getRecords();
+      const namedPullRequests = sortPullRequests(
+        visible.map(
+          (pr): NamedPullRequest => ({
+            ...pr,
+            status: getPullRequestStatus(records[pr.url]),
+          }),
+        ),
+        { order: definition.sortOrder, priority: definition.sortPriority },
+      );
+      // NOTE: Without a sort order, items stay where they were created
+      const applyOrder = definition.sortOrder !== "none";
+      const newCount = namedPullRequests.filter(
+        ({ status }) => status === "new",
+      ).length;
+      const updatedCount = namedPullRequests.filter(
+        ({ status }) => status === "updated",
+      ).length;
+
+      const updatePrsAlarm = await browser.alarms.get(
+        this._getAlarmName(definition.key),
+      );
+      if (definition.refreshInterval !== updatePrsAlarm?.periodInMinutes) {
+        await this.updateRefreshInterval({
+          key: definition.key,
+          interval: definition.refreshInterval,
+        });
       }
 
       if (this._configHandler.supportsTabGroups()) {
         // Chrome: Use tab groups
-        let groupId = settings.tabGroupId;
+        let groupId = definition.tabGroupId;
 
         // Ensure the tab group exists and is up to date
         groupId = await this._tabGroupHandler.ensureTabGroup({
-          title: settings.name,
-          color: settings.tabGroupColor,
+          title: definition.name,
+          color: definition.tabGroupColor,
           groupId,
         });
 
-        if (groupId !== settings.tabGroupId) {
-          await this._configHandler.setSettings({ tabGroupId: groupId });
+        if (groupId !== definition.tabGroupId) {
+          await this._configHandler.setFolderDefinition(definition.key, {
+            tabGroupId: groupId,
+          });
         }
 
         // Attempt to sync tabs
         const syncSuccess = await this._tabGroupHandler.syncTabs({
           groupId,
-          pullRequests,
-          prNameFormat: settings.prNameFormat,
+          pullRequests: namedPullRequests,
+          headerLinks: definition.headerLinks,
+          prNameFormat: definition.prNameFormat,
           formatPrName: this._configHandler.formatPrName.bind(
             this._configHandler,
           ),
-          previousPrCount: settings.lastPrCount,
+          newCount,
+          updatedCount,
+          allowRemovals: complete,
+          applyOrder,
+          lastVisits,
         });
 
         // If sync failed (the group became invalid), recreate the group and retry once
         if (!syncSuccess) {
           console.warn(
-            "[SYNC-FOLDER] Tab group sync failed, recreating group and retrying...",
+            "[SYNC-DEFINITION] Tab group sync failed, recreating group and retrying...",
           );
 
           // Close any ungrouped PR tabs to prevent duplicates
-          const prUrls = new Set(pullRequests.map((pr) => pr.url));
+          const prUrls = new Set(visible.map((pr) => pr.url));
           await this._tabGroupHandler.closeUngroupedPrTabs(prUrls);
 
           // Wait a bit for cleanup to complete
@@ -162,74 +697,569 @@ export class LiveFolder {
 
           // Force recreation by searching only by title (not using stored groupId)
           groupId = await this._tabGroupHandler.ensureTabGroup({
-            title: settings.name,
-            color: settings.tabGroupColor,
+            title: definition.name,
+            color: definition.tabGroupColor,
             groupId: -1, // Pass -1 to force search by title or create new
           });
 
-          await this._configHandler.setSettings({ tabGroupId: groupId });
+          await this._configHandler.setFolderDefinition(definition.key, {
+            tabGroupId: groupId,
+          });
 
           // Retry sync with a new group
           const retrySuccess = await this._tabGroupHandler.syncTabs({
             groupId,
-            pullRequests,
-            prNameFormat: settings.prNameFormat,
+            pullRequests: namedPullRequests,
+            headerLinks: definition.headerLinks,
+            prNameFormat: definition.prNameFormat,
             formatPrName: this._configHandler.formatPrName.bind(
               this._configHandler,
             ),
-            previousPrCount: settings.lastPrCount,
+            newCount,
+            updatedCount,
+            allowRemovals: complete,
+            applyOrder,
+            lastVisits,
           });
 
           if (!retrySuccess) {
             console.error(
-              "[SYNC-FOLDER] Failed to sync tabs even after recreating group",
+              "[SYNC-DEFINITION] Failed to sync tabs even after recreating group",
             );
+            errors.push("The tab group could not be recreated");
           }
         }
       } else {
         // Firefox: Use bookmarks
-        const folder = await this._configHandler.getFolder();
+        const folder = await this._configHandler.getFolder(definition.key);
         if (!folder) {
           if (this._debug)
-            console.log("[SYNC-FOLDER] No folder found, creating");
-          const newFolder = await this._configHandler.initFolder();
+            console.log("[SYNC-DEFINITION] No folder found, creating");
+          const newFolder = await this._configHandler.initFolder(
+            definition.key,
+          );
           if (!newFolder) {
-            console.error("[SYNC-FOLDER] Failed to create folder");
-            return;
+            console.error("[SYNC-DEFINITION] Failed to create folder");
+            errors.push("The bookmark folder could not be created");
+            return [];
           }
         }
 
-        const currentFolder = await this._configHandler.getFolder();
+        const currentFolder = await this._configHandler.getFolder(
+          definition.key,
+        );
         if (!currentFolder) {
           console.error(
-            "[SYNC-FOLDER] Folder not found after creation attempt",
+            "[SYNC-DEFINITION] Folder not found after creation attempt",
           );
-          return;
+          errors.push("The bookmark folder could not be found");
+          return [];
         }
 
-        if (settings.name && currentFolder.title !== settings.name) {
+        if (definition.name && currentFolder.title !== definition.name) {
           await browser.bookmarks.update(currentFolder.id, {
-            title: settings.name,
+            title: definition.name,
+          });
+          this._journalHandler.record({
+            type: "bookmark-updated",
+            id: currentFolder.id,
+            title: definition.name,
+            previous: currentFolder.title,
           });
         }
 
+        const removed = (await this._removalHandler.getRemoved()).filter(
+          ({ folderKey }) => folderKey === definition.key,
+        );
         await this._syncBookmarks({
           folderId: currentFolder.id,
-          pullRequests,
-          prNameFormat: settings.prNameFormat,
+          pullRequests: namedPullRequests,
+          removedPullRequests: removed.map(({ pr }) => pr),
+          headerLinks: definition.headerLinks,
+          prNameFormat: definition.prNameFormat,
+          allowRemovals: complete,
+          applyOrder,
+          groupBy: definition.groupBy,
+          customQueries: definition.customQueries,
         });
       }
 
-      await this._configHandler.setSettings({
-        lastPrUpdate: Date.now(),
-        lastPrCount: pullRequests.length,
+      // NOTE: lastPrUpdate is the last sync without errors
+      await this._configHandler.setFolderDefinition(definition.key, {
+        ...(errors.length === 0 && { lastPrUpdate: Date.now() }),
+        lastPrCount: visible.length,
       });
 
-      if (this._debug) console.log("[SYNC-FOLDER] Sync completed successfully");
+      const visibleUrls = new Set(visible.map((pr) => pr.url));
+      return newPullRequests.filter((pr) => visibleUrls.has(pr.url));
     } catch (error) {
-      console.error("[SYNC-FOLDER] Error syncing folder:", error);
-    } finally {
-      this._isSyncing = false;
+      console.error(
+        "[SYNC-DEFINITION] Error syncing",
+        definition.name,
+        ":",
+        error,
+      );
+      errors.push(this._getErrorMessage(error));
+      return [];
+    }
+  }
+
+  /**
+   * Stores the PRs of a sync and returns the ones which weren't there before.
+   * Nothing is new on the first sync of a definition.
+   */
+  private async _storePullRequests({
+    definition,
+    pullRequests,
+    complete,
+  }: {
+    definition: LiveFolderDefinition;
+    pullRequests: PullRequest[];
+    complete: boolean;
+  }) {
+    const previous = await this._prStore.get(definition.key);
+    const currentUrls = new Set(pullRequests.map((pr) => pr.url));
+
+    // A partial fetch keeps the PRs it didn't see, so they aren't new again later
+    await this._prStore.set(definition.key, [
+      ...pullRequests,
+      ...(complete
+        ? []
+        : (previous ?? []).filter((pr) => !currentUrls.has(pr.url))),
+    ]);
+
+    if (!previous) return [];
+
+    const previousUrls = new Set(previous.map((pr) => pr.url));
+    return pullRequests.filter(
+      (pr) =>
+        !previousUrls.has(pr.url) &&
+        pr.sources.some((source) => definition.notifySources.includes(source)),
+    );
+  }
+
+  /**
+   * Keeps the tab groups in the order of their definitions, right after the
+   * pinned tabs.
+   */
+  private async _positionTabGroups() {
+    const { folders } = await this._configHandler.getSettings();
+    let precedingTabCount = 0;
+
+    for (const definition of folders) {
+      if (definition.tabGroupId === -1) continue;
+      if (!(await this._tabGroupHandler.getTabGroup(definition.tabGroupId)))
+        continue;
+
+      await this._tabGroupHandler.positionGroupAfterPinnedTabs(
+        definition.tabGroupId,
+        precedingTabCount,
+      );
+      precedingTabCount += await this._tabGroupHandler.getGroupTabCount(
+        definition.tabGroupId,
+      );
+    }
+  }
+
+  /**
+   * Cleans up after a removed folder definition: its alarm and its bookmark
+   * folder or tab group.
+   */
+  public async removeFolder(definition: LiveFolderDefinition) {
+    try {
+      if (this._debug) console.log("[REMOVE-FOLDER]", definition.name);
+
+      await browser.alarms.clear(this._getAlarmName(definition.key));
+      await this._prStore.remove(definition.key);
+      await this._pinHandler.removeFolderPins(definition.key);
+      await this._removalHandler.removeFolderEntries(definition.key);
+      this._ssoRequiredHosts.delete(definition.key);
+      this._syncErrors.delete(definition.key);
+
+      if (this._configHandler.supportsTabGroups()) {
+        if (definition.tabGroupId !== -1) {
+          await this._tabGroupHandler.removeTabGroup(definition.tabGroupId);
+        }
+      } else if (definition.id !== this._configHandler.DEFAULT_FOLDER.id) {
+        await browser.bookmarks.removeTree(definition.id);
+      }
+    } catch (error) {
+      console.error("[REMOVE-FOLDER] Error removing folder:", error);
+    }
+  }
+
+  /**
+   * Pull requests of the last sync of every definition, for the popup. They
+   * come in the order of the folders and each folder's sort order.
+   */
+  public async getTrackedPullRequests() {
+    const { folders } = await this._configHandler.getSettings();
+    const stored = await this._prStore.getAll();
+    const records = await this._prStore.getRecords();
+    const snoozes = await this._snoozeHandler.getSnoozes();
+    const pins = await this._pinHandler.getPins();
+    const pullRequests = new Map<string, TrackedPullRequest>();
+    let lastUpdate: number | null = null;
+
+    for (const definition of folders) {
+      const entry = stored[definition.key];
+      if (!entry) continue;
+
+      lastUpdate = Math.max(lastUpdate ?? 0, entry.updatedAt);
+      // NOTE: In the order of the folder, e.g. for stepping through them
+      const sorted = sortPullRequests(entry.pullRequests, {
+        order: definition.sortOrder,
+        priority: definition.sortPriority,
+      });
+      for (const pr of sorted) {
+        const tracked = pullRequests.get(pr.url);
+        if (tracked) {
+          tracked.folders.push(definition.name);
+        } else {
+          pullRequests.set(pr.url, {
+            ...pr,
+            folders: [definition.name],
+            status: getPullRequestStatus(records[pr.url]),
+            snooze: this._getActiveSnooze(snoozes[pr.url], pr),
+            pinned: !!pins[pr.url],
+          });
+        }
+      }
+    }
+
+    const folderNames = new Map(
+      folders.map((definition) => [definition.key, definition.name]),
+    );
+    const recentlyRemoved: RecentlyRemovedPullRequest[] = (
+      await this._removalHandler.getRemoved()
+    )
+      .filter(({ folderKey }) => folderNames.has(folderKey))
+      .map((entry) => ({
+        ...entry,
+        folder: folderNames.get(entry.folderKey)!,
+      }));
+
+    return {
+      pullRequests: [...pullRequests.values()],
+      recentlyRemoved,
+      lastUpdate,
+      updateTimes: this._githubHandler.providesUpdateTimes,
+    };
+  }
+
+  /**
+   * Brings a recently removed pull request back to the folder it was removed
+   * from, for another grace period.
+   */
+  public async restorePullRequest({
+    url,
+    folderKey,
+  }: {
+    url: string;
+    folderKey: string;
+  }) {
+    const entry = await this._removalHandler.takeRemoved(url, folderKey);
+    if (!entry) return;
+
+    if (this._debug) console.log("[RESTORE]", url, "to", folderKey);
+    await this._removalHandler.restore(entry);
+    await this.syncFolder(folderKey);
+  }
+
+  /**
+   * Pins a pull request to a definition, or unpins it when `folderKey` is
+   * null, and syncs the affected definitions.
+   */
+  public async pinPullRequest({
+    url,
+    folderKey,
+    name,
+  }: {
+    url: string;
+    folderKey: string | null;
+    name?: string;
+  }) {
+    const previousFolderKey = await this._pinHandler.unpin(url);
+
+    if (folderKey) {
+      const tracked = (await this._prStore.getAllPullRequests()).find(
+        (pr) => pr.url === url,
+      );
+      const { pathname } = new URL(url);
+      const [, organization, repository, , number] = pathname.split("/");
+      await this._pinHandler.pin({
+        url,
+        folderKey,
+        name:
+          tracked?.name ?? name ?? `${organization}/${repository}#${number}`,
+      });
+      await this.syncFolder(folderKey);
+    }
+
+    if (previousFolderKey && previousFolderKey !== folderKey) {
+      await this.syncFolder(previousFolderKey);
+    }
+  }
+
+  /**
+   * Opens the given pull requests, focusing the tab of a PR if it's open
+   * already, e.g. in a tab group.
+   */
+  public async openPullRequests(urls: string[], { active = true } = {}) {
+    for (const [index, url] of urls.entries()) {
+      // NOTE: Only the first one is activated when opening several
+      const activate = active && index === 0;
+      const [tab] = await browser.tabs.query({ url });
+
+      if (tab?.id !== undefined) {
+        if (!activate) continue;
+        await browser.tabs.update(tab.id, { active: true });
+        if (tab.windowId !== undefined) {
+          await browser.windows.update(tab.windowId, { focused: true });
+        }
+        continue;
+      }
+      await browser.tabs.create({ url, active: activate });
+    }
+  }
+
+  /**
+   * Focuses the tab group of the first definition, or of the next one when
+   * a live tab group is focused already. Bookmarks have nothing to focus.
+   */
+  public async focusNextTabGroup() {
+    if (!this._configHandler.supportsTabGroups()) return;
+
+    const { folders } = await this._configHandler.getSettings();
+    const groupIds = folders
+      .map(({ tabGroupId }) => tabGroupId)
+      .filter((groupId) => groupId !== -1);
+    if (groupIds.length === 0) return;
+
+    const [activeTab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    const index = activeTab ? groupIds.indexOf(activeTab.groupId) : -1;
+    await this._tabGroupHandler.focusTabGroup(
+      groupIds[(index + 1) % groupIds.length],
+    );
+  }
+
+  /**
+   * Progress and outcome of the syncs, for the popup.
+   */
+  public async getSyncStatus(): Promise<SyncStatus> {
+    const { folders } = await this._configHandler.getSettings();
+    const { pullRequests } = await this.getTrackedPullRequests();
+
+    const folderStatuses = folders.map(
+      (definition): FolderSyncStatus => ({
+        key: definition.key,
+        name: definition.name,
+        lastSync: definition.lastPrUpdate || null,
+        prCount: definition.lastPrCount,
+        errors: this._syncErrors.get(definition.key) ?? [],
+      }),
+    );
+    const lastSyncs = folderStatuses
+      .map(({ lastSync }) => lastSync)
+      .filter((lastSync) => lastSync !== null);
+
+    return {
+      syncing: this._isSyncing || this._pendingSyncs.size > 0,
+      lastSync: lastSyncs.length > 0 ? Math.max(...lastSyncs) : null,
+      prCount: pullRequests.filter((pr) => !pr.snooze).length,
+      error: this._lastSyncError,
+      folders: folderStatuses,
+      undo: await this._journalHandler.getSummary(),
+    };
+  }
+
+  private _getErrorMessage(error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private _getActiveSnooze(snooze: Snooze | undefined, pr: PullRequest) {
+    return snooze && isSnoozeActive(snooze, pr) ? snooze : null;
+  }
+
+  /**
+   * Snoozes or ignores a pull request, or restores it when `request` is null,
+   * and syncs so it leaves or rejoins the folders.
+   */
+  public async snoozePullRequest(url: string, request: SnoozeRequest | null) {
+    let snooze: Snooze | null = null;
+    if (request?.type === "update") {
+      if (!this._githubHandler.providesUpdateTimes) {
+        throw new Error("The data source doesn't provide update times");
+      }
+      // NOTE: An untracked PR counts as updated now, so the next update shows it
+      const pr = (await this._prStore.getAllPullRequests()).find(
+        (pr) => pr.url === url,
+      );
+      snooze = { type: "update", updatedAt: pr?.updatedAt ?? Date.now() };
+    } else {
+      snooze = request;
+    }
+
+    await this._snoozeHandler.setSnooze(url, snooze);
+    await this._scheduleSnoozeAlarm();
+    await this.syncFolder();
+  }
+
+  // NOTE: Syncs again when the earliest timed snooze runs out
+  private async _scheduleSnoozeAlarm() {
+    try {
+      await browser.alarms.clear(this._alarms.SNOOZE_EXPIRED);
+      const nextExpiry = await this._snoozeHandler.getNextExpiry();
+      if (nextExpiry !== null) {
+        browser.alarms.create(this._alarms.SNOOZE_EXPIRED, {
+          when: nextExpiry,
+        });
+        if (this._debug)
+          console.log(
+            "[SNOOZE] Next expiry at",
+            new Date(nextExpiry).toISOString(),
+          );
+      }
+    } catch (error) {
+      console.error("[SNOOZE] Error scheduling snooze alarm:", error);
+    }
+  }
+
+  /**
+   * Updates the toolbar badge from the last sync and the auth state.
+   */
+  public async updateBadge() {
+    try {
+      const { badgeMode } = await this._configHandler.getSettings();
+      const snoozes = await this._snoozeHandler.getSnoozes();
+      const pullRequests = (await this._prStore.getAllPullRequests()).filter(
+        (pr) => !this._getActiveSnooze(snoozes[pr.url], pr),
+      );
+      const records = await this._prStore.getRecords();
+
+      const unauthenticatedHosts = Object.entries(
+        this._githubHandler.getHostAuthStates(),
+      )
+        .filter(([, authenticated]) => !authenticated)
+        .map(([host]) => host);
+      const ssoRequiredHosts = new Set(
+        [...this._ssoRequiredHosts.values()].flat(),
+      );
+
+      let warning: string | null = null;
+      if (unauthenticatedHosts.length > 0) {
+        warning = `Not signed in to ${unauthenticatedHosts.join(", ")}`;
+      } else if (ssoRequiredHosts.size > 0) {
+        warning = `SSO required on ${[...ssoRequiredHosts].join(", ")}`;
+      }
+
+      await this._badgeHandler.update({
+        mode: badgeMode,
+        trackedCount: pullRequests.length,
+        unseenCount: pullRequests.filter(
+          (pr) => getPullRequestStatus(records[pr.url]) === "new",
+        ).length,
+        warning,
+      });
+    } catch (error) {
+      console.error("[UPDATE-BADGE] Error updating badge:", error);
+    }
+  }
+
+  // NOTE: Opening a tracked PR from anywhere, a bookmark or a tab of a live
+  //       tab group, counts as a visit. Tabs loading in the background don't.
+  private _setupSeenListener() {
+    if (this._seenListenerSetup) return;
+
+    browser.tabs.onUpdated.addListener(async (_tabId, changeInfo, tab) => {
+      if (!changeInfo.url || !tab.active) return;
+      await this._onTabVisited(changeInfo.url);
+    });
+    browser.tabs.onActivated.addListener(async ({ tabId }) => {
+      try {
+        const tab = await browser.tabs.get(tabId);
+        if (tab.url) await this._onTabVisited(tab.url);
+      } catch (error) {
+        // The tab may have been closed right away
+        if (this._debug) console.log("[VISITED] Could not read tab:", error);
+      }
+    });
+    this._seenListenerSetup = true;
+  }
+
+  private async _onTabVisited(tabUrl: string) {
+    const url = getPullRequestBaseUrl(tabUrl);
+    if (!url || !isPullRequestUrl(url, this._githubHandler.hosts)) return;
+    await this._onVisited(url);
+  }
+
+  private async _onVisited(url: string) {
+    try {
+      if (!(await this._prStore.markVisited(url))) return;
+
+      if (this._debug) console.log("[VISITED]", url);
+      await this._refreshBookmarkTitles(url);
+      await this.updateBadge();
+      this._updateHandler.notifyPullRequestsChanged();
+    } catch (error) {
+      console.error("[VISITED] Error recording visit:", error);
+    }
+  }
+
+  // NOTE: The status of a PR can be part of its bookmark titles
+  private async _refreshBookmarkTitles(url: string) {
+    if (this._configHandler.supportsTabGroups()) return;
+
+    const { folders } = await this._configHandler.getSettings();
+    const stored = await this._prStore.getAll();
+    const records = await this._prStore.getRecords();
+    const ownedIds = await this._ownershipHandler.getOwnedBookmarkIds();
+    const bookmarks = (await browser.bookmarks.search({ url })).filter(
+      (bookmark) => ownedIds.has(bookmark.id),
+    );
+
+    for (const definition of folders) {
+      const pr = stored[definition.key]?.pullRequests.find(
+        (pr) => pr.url === url,
+      );
+      const folder =
+        pr && (await this._configHandler.getFolder(definition.key));
+      if (!pr || !folder) continue;
+
+      const parentIds = new Set([
+        folder.id,
+        ...(await browser.bookmarks.getChildren(folder.id))
+          .filter((child) => !child.url)
+          .map((subfolder) => subfolder.id),
+      ]);
+      const title = this._configHandler.formatPrName({
+        pr: { ...pr, status: getPullRequestStatus(records[url]) },
+        format: definition.prNameFormat,
+      });
+
+      for (const bookmark of bookmarks) {
+        if (!bookmark.parentId || !parentIds.has(bookmark.parentId)) continue;
+        if (bookmark.title !== title) {
+          await browser.bookmarks.update(bookmark.id, { title });
+        }
+      }
+    }
+  }
+
+  private _getAlarmName(key: string) {
+    return `${this._alarms.UPDATE_PRS}:${key}`;
+  }
+
+  // NOTE: Clears the alarms of all definitions, including the single folder alarm
+  private async _clearUpdateAlarms() {
+    const alarms = await browser.alarms.getAll();
+    for (const alarm of alarms) {
+      if (alarm.name.startsWith(this._alarms.UPDATE_PRS)) {
+        await browser.alarms.clear(alarm.name);
+      }
     }
   }
 
@@ -237,23 +1267,38 @@ export class LiveFolder {
     try {
       if (this._debug) console.log("[SETUP-ALARMS]", this._alarms.UPDATE_PRS);
 
-      const { refreshInterval } = await this._configHandler.getSettings();
+      const { folders } = await this._configHandler.getSettings();
 
-      await browser.alarms.clear(this._alarms.UPDATE_PRS);
+      await this._clearUpdateAlarms();
 
-      browser.alarms.create(this._alarms.UPDATE_PRS, {
-        periodInMinutes: refreshInterval,
-        when: Date.now() + refreshInterval * 60 * 1000,
-      });
+      for (const { key, refreshInterval } of folders) {
+        browser.alarms.create(this._getAlarmName(key), {
+          periodInMinutes: refreshInterval,
+          when: Date.now() + refreshInterval * 60 * 1000,
+        });
+      }
 
       // Only add the listener once
       if (!this._alarmListenerSetup) {
         browser.alarms.onAlarm.addListener(async (alarm) => {
           if (this._debug) console.log("[ON-ALARM]", alarm);
 
-          if (alarm.name === this._alarms.UPDATE_PRS) {
+          if (alarm.name === this._alarms.SNOOZE_EXPIRED) {
             await this.syncFolder();
+            return;
           }
+
+          const prefix = `${this._alarms.UPDATE_PRS}:`;
+          if (!alarm.name.startsWith(prefix)) return;
+
+          const key = alarm.name.slice(prefix.length);
+          if (!(await this._configHandler.getFolderDefinition(key))) {
+            // The definition was removed in the meantime
+            await browser.alarms.clear(alarm.name);
+            return;
+          }
+
+          await this.syncFolder(key);
         });
         this._alarmListenerSetup = true;
         if (this._debug) console.log("[SETUP-ALARMS] Alarm listener set up");
@@ -263,77 +1308,382 @@ export class LiveFolder {
     }
   }
 
+  /**
+   * Sorts the pull requests into the subfolders of a grouping mode, the
+   * `null` subfolder being the live folder itself.
+   */
+  private _groupPullRequests({
+    pullRequests,
+    groupBy,
+    customQueries,
+  }: {
+    pullRequests: Array<PullRequest>;
+    groupBy: BookmarkGrouping;
+    customQueries: CustomQuery[];
+  }) {
+    const groups = new Map<string | null, Array<PullRequest>>();
+    const addToGroup = (title: string | null, pr: PullRequest) => {
+      groups.set(title, [...(groups.get(title) ?? []), pr]);
+    };
+
+    const sourceNames = new Map<string, string>([
+      ...Object.entries(this._SOURCE_FOLDER_NAMES),
+      ...customQueries.map(({ id, name }): [string, string] => [id, name]),
+    ]);
+
+    for (const pr of pullRequests) {
+      switch (groupBy) {
+        case "organization":
+          addToGroup(pr.organization, pr);
+          break;
+        case "repository":
+          addToGroup(`${pr.organization}/${pr.repository_name}`, pr);
+          break;
+        case "source":
+          for (const source of pr.sources) {
+            addToGroup(sourceNames.get(source) ?? source, pr);
+          }
+          break;
+        default:
+          addToGroup(null, pr);
+      }
+    }
+
+    return groups;
+  }
+
   private async _syncBookmarks({
     folderId,
     pullRequests,
+    removedPullRequests,
+    headerLinks,
     prNameFormat,
+    allowRemovals,
+    applyOrder,
+    groupBy,
+    customQueries,
   }: {
     folderId: string;
     pullRequests: Array<PullRequest>;
+    removedPullRequests: Array<PullRequest>;
+    headerLinks: HeaderLink[];
     prNameFormat: string;
+    allowRemovals: boolean;
+    applyOrder: boolean;
+    groupBy: BookmarkGrouping;
+    customQueries: CustomQuery[];
   }) {
     try {
       if (this._debug)
         console.log(
           "[SYNC-BOOKMARKS] Syncing",
           pullRequests.length,
-          "pull requests",
+          "pull requests grouped by",
+          groupBy,
         );
 
-      const existingBookmarks = await browser.bookmarks.getChildren(folderId);
-      const existingUrls = new Map(
-        existingBookmarks.map((bookmark) => [bookmark.url, bookmark]),
+      const groups = this._groupPullRequests({
+        pullRequests,
+        groupBy,
+        customQueries,
+      });
+      const ownedIds = await this._ownershipHandler.getOwnedBookmarkIds();
+      // NOTE: Folders of the user are left alone, even with a matching title
+      const children = await browser.bookmarks.getChildren(folderId);
+      const subfolders = new Map(
+        children
+          .filter((child) => !child.url && ownedIds.has(child.id))
+          .map((subfolder) => [subfolder.title, subfolder]),
       );
-      const processedUrls = new Set<string>();
 
-      for (const pr of pullRequests) {
-        const title = this._configHandler.formatPrName({
-          pr,
-          format: prNameFormat,
+      await this._syncBookmarkList({
+        parentId: folderId,
+        pullRequests: groups.get(null) ?? [],
+        headerLinks,
+        prNameFormat,
+        allowRemovals,
+        applyOrder,
+      });
+
+      const subfolderTitles = [...groups.keys()]
+        .filter((title) => title !== null)
+        .sort((a, b) => a.localeCompare(b));
+
+      for (const title of subfolderTitles) {
+        const subfolder =
+          subfolders.get(title) ??
+          (await this._createBookmark({ parentId: folderId, title }));
+
+        await this._syncBookmarkList({
+          parentId: subfolder.id,
+          pullRequests: groups.get(title)!,
+          prNameFormat,
+          allowRemovals,
+          applyOrder,
         });
+      }
 
-        if (existingUrls.has(pr.url)) {
-          const existing = existingUrls.get(pr.url)!;
-          if (existing.title !== title) {
-            await browser.bookmarks.update(existing.id, { title });
-          }
-        } else {
-          await browser.bookmarks.create({
-            parentId: folderId,
-            title,
-            url: pr.url,
+      const removedFolder = subfolders.get(this._RECENTLY_REMOVED_FOLDER_NAME);
+      await this._syncRecentlyRemovedBookmarks({
+        folderId,
+        subfolder: removedFolder,
+        pullRequests: removedPullRequests,
+        prNameFormat,
+      });
+
+      // A partial fetch must never prune subfolders of PRs it didn't see
+      if (!allowRemovals) return;
+
+      for (const [title, subfolder] of subfolders) {
+        if (groups.has(title) || title === this._RECENTLY_REMOVED_FOLDER_NAME)
+          continue;
+
+        await this._syncBookmarkList({
+          parentId: subfolder.id,
+          pullRequests: [],
+          prNameFormat,
+          allowRemovals,
+        });
+
+        // Subfolders with other content are left to the user
+        const remaining = await browser.bookmarks.getChildren(subfolder.id);
+        if (remaining.length === 0) {
+          await this._removeBookmark(subfolder);
+          if (this._debug)
+            console.log("[SYNC-BOOKMARKS] Pruned subfolder:", title);
+        }
+      }
+    } catch (error) {
+      console.error("[SYNC-BOOKMARKS] Error syncing bookmarks:", error);
+    }
+  }
+
+  /**
+   * The removed list is complete on every sync, its subfolder only exists
+   * while it has pull requests.
+   */
+  private async _syncRecentlyRemovedBookmarks({
+    folderId,
+    subfolder,
+    pullRequests,
+    prNameFormat,
+  }: {
+    folderId: string;
+    subfolder: Bookmarks.BookmarkTreeNode | undefined;
+    pullRequests: Array<PullRequest>;
+    prNameFormat: string;
+  }) {
+    if (pullRequests.length === 0 && !subfolder) return;
+
+    const parent =
+      subfolder ??
+      (await this._createBookmark({
+        parentId: folderId,
+        title: this._RECENTLY_REMOVED_FOLDER_NAME,
+      }));
+    await this._syncBookmarkList({
+      parentId: parent.id,
+      pullRequests,
+      prNameFormat,
+      allowRemovals: true,
+    });
+
+    if (pullRequests.length > 0) return;
+    const remaining = await browser.bookmarks.getChildren(parent.id);
+    if (remaining.length === 0) await this._removeBookmark(parent);
+  }
+
+  private async _createBookmark(details: Bookmarks.CreateDetails) {
+    const bookmark = await browser.bookmarks.create(details);
+    await this._ownershipHandler.ownBookmark(bookmark.id);
+    this._journalHandler.record({
+      type: "bookmark-created",
+      id: bookmark.id,
+      url: bookmark.url ?? null,
+    });
+    return bookmark;
+  }
+
+  private async _removeBookmark(bookmark: Bookmarks.BookmarkTreeNode) {
+    await browser.bookmarks.remove(bookmark.id);
+    this._journalHandler.recordBookmarkRemoved(bookmark);
+  }
+
+  // NOTE: Only ever moves up within its folder, see `_orderBookmarks`
+  private async _moveBookmark(
+    bookmark: Bookmarks.BookmarkTreeNode,
+    index: number,
+  ) {
+    await browser.bookmarks.move(bookmark.id, {
+      parentId: bookmark.parentId,
+      index,
+    });
+    this._journalHandler.record({
+      type: "bookmark-moved",
+      id: bookmark.id,
+      parentId: bookmark.parentId!,
+      index: bookmark.index!,
+    });
+  }
+
+  /**
+   * Syncs the bookmarks directly inside `parentId` with `pullRequests`, after
+   * the header links if any. Only bookmarks the extension created are
+   * updated or removed.
+   */
+  private async _syncBookmarkList({
+    parentId,
+    pullRequests,
+    headerLinks = [],
+    prNameFormat,
+    allowRemovals,
+    applyOrder = false,
+  }: {
+    parentId: string;
+    pullRequests: Array<PullRequest>;
+    headerLinks?: HeaderLink[];
+    prNameFormat: string;
+    allowRemovals: boolean;
+    applyOrder?: boolean;
+  }) {
+    const ownedIds = await this._ownershipHandler.getOwnedBookmarkIds();
+    const existingBookmarks = (
+      await browser.bookmarks.getChildren(parentId)
+    ).filter((bookmark) => bookmark.url && ownedIds.has(bookmark.id));
+    const existingUrls = new Map(
+      existingBookmarks.map((bookmark) => [bookmark.url, bookmark]),
+    );
+    const processedUrls = new Set<string>();
+
+    for (const [index, link] of headerLinks.entries()) {
+      const existing = existingUrls.get(link.url);
+      if (existing) {
+        if (existing.title !== link.title) {
+          await browser.bookmarks.update(existing.id, { title: link.title });
+          this._journalHandler.record({
+            type: "bookmark-updated",
+            id: existing.id,
+            title: link.title,
+            previous: existing.title,
           });
         }
+        // NOTE: Earlier moves shift the indexes, so the current one is read
+        const [current] = await browser.bookmarks.get(existing.id);
+        if (current.index !== index) {
+          await this._moveBookmark(current, index);
+        }
+      } else {
+        await this._createBookmark({
+          parentId,
+          title: link.title,
+          url: link.url,
+          index,
+        });
+      }
+      processedUrls.add(link.url);
+    }
+
+    for (const pr of pullRequests) {
+      const title = this._configHandler.formatPrName({
+        pr,
+        format: prNameFormat,
+      });
 
-        processedUrls.add(pr.url);
+      if (existingUrls.has(pr.url)) {
+        const existing = existingUrls.get(pr.url)!;
+        if (existing.title !== title) {
+          await browser.bookmarks.update(existing.id, { title });
+          this._journalHandler.record({
+            type: "bookmark-updated",
+            id: existing.id,
+            title,
+            previous: existing.title,
+          });
+        }
+      } else {
+        await this._createBookmark({
+          parentId,
+          title,
+          url: pr.url,
+        });
       }
 
-      const bookmarksToRemove = existingBookmarks.filter(
-        (bookmark) => bookmark.url && !processedUrls.has(bookmark.url),
+      processedUrls.add(pr.url);
+    }
+
+    // A partial fetch must never remove bookmarks of PRs it didn't see
+    const bookmarksToRemove = allowRemovals
+      ? existingBookmarks.filter(
+          (bookmark) => bookmark.url && !processedUrls.has(bookmark.url),
+        )
+      : [];
+
+    for (const bookmark of bookmarksToRemove) {
+      await this._removeBookmark(bookmark);
+    }
+
+    if (applyOrder) {
+      await this._orderBookmarks(
+        parentId,
+        pullRequests.map((pr) => pr.url),
       );
+    }
 
-      for (const bookmark of bookmarksToRemove) {
-        await browser.bookmarks.remove(bookmark.id);
-      }
+    if (this._debug) {
+      console.log(
+        "[SYNC-BOOKMARKS] Added/updated:",
+        pullRequests.length,
+        "Removed:",
+        bookmarksToRemove.length,
+      );
+    }
+  }
 
-      if (this._debug) {
-        console.log(
-          "[SYNC-BOOKMARKS] Added/updated:",
-          pullRequests.length,
-          "Removed:",
-          bookmarksToRemove.length,
-        );
-      }
-    } catch (error) {
-      console.error("[SYNC-BOOKMARKS] Error syncing bookmarks:", error);
+  /**
+   * Moves the PR bookmarks of `parentId` into the order of `urls`, within
+   * the positions they take up already. Bookmarks in place aren't moved.
+   */
+  private async _orderBookmarks(parentId: string, urls: string[]) {
+    const ownedIds = await this._ownershipHandler.getOwnedBookmarkIds();
+    const positions = new Map(urls.map((url, index) => [url, index]));
+    const current = (await browser.bookmarks.getChildren(parentId)).filter(
+      (bookmark) =>
+        bookmark.url &&
+        ownedIds.has(bookmark.id) &&
+        positions.has(bookmark.url),
+    );
+    const desired = [...current].sort(
+      (a, b) => positions.get(a.url!)! - positions.get(b.url!)!,
+    );
+
+    let moved = 0;
+    for (const [index, bookmark] of desired.entries()) {
+      if (current[index] === bookmark) continue;
+
+      // NOTE: Always moved up, in front of the bookmark holding its position
+      const [target] = await browser.bookmarks.get(current[index].id);
+      const [moving] = await browser.bookmarks.get(bookmark.id);
+      await this._moveBookmark(moving, target.index!);
+      current.splice(current.indexOf(bookmark), 1);
+      current.splice(index, 0, bookmark);
+      moved++;
     }
+
+    if (this._debug && moved > 0)
+      console.log("[SYNC-BOOKMARKS] Reordered", moved, "bookmarks");
   }
 
-  public async updateRefreshInterval(interval: number) {
-    if (this._debug) console.log("[UPDATE-REFRESH]", interval);
+  public async updateRefreshInterval({
+    key,
+    interval,
+  }: {
+    key: string;
+    interval: number;
+  }) {
+    if (this._debug) console.log("[UPDATE-REFRESH]", key, interval);
     try {
-      await browser.alarms.clear(this._alarms.UPDATE_PRS);
-      browser.alarms.create(this._alarms.UPDATE_PRS, {
+      await browser.alarms.clear(this._getAlarmName(key));
+      browser.alarms.create(this._getAlarmName(key), {
         periodInMinutes: interval,
       });
     } catch (error) {
@@ -1,5 +1,15 @@
 import { type ProtocolWithReturn } from "webext-bridge";
-import { type LiveFolderConfig } from "./config-handler";
+import {
+  type LiveFolderConfig,
+  type LiveFolderConfigUpdate,
+} from "./config-handler";
+import { type PullRequest } from "./github-handler";
+import { type TrackedPullRequest } from "./pull-request-store";
+import { type SnoozeRequest } from "./snooze";
+import {
+  type RecentlyRemovedPullRequest,
+  type SyncStatus,
+} from "./live-folder";
 
 declare module "webext-bridge" {
   export interface ProtocolMap {
@@ -7,11 +17,62 @@ declare module "webext-bridge" {
       null,
       {
         isAuthenticated: boolean;
+        hosts: Record<string, boolean>;
+      }
+    >;
+    PREVIEW_QUERY: ProtocolWithReturn<
+      { query: string },
+      {
+        success: boolean;
+        error: string | null;
+        count: number; // PRs on the first page
+        pullRequests: PullRequest[];
+      }
+    >;
+    GET_PULL_REQUESTS: ProtocolWithReturn<
+      null,
+      {
+        pullRequests: TrackedPullRequest[];
+        recentlyRemoved: RecentlyRemovedPullRequest[];
+        lastUpdate: number | null; // of the most recently synced definition
+        updateTimes: boolean; // whether PRs can be snoozed until updated
+      }
+    >;
+    SYNC_NOW: ProtocolWithReturn<null, SyncStatus>;
+    GET_SYNC_STATUS: ProtocolWithReturn<null, SyncStatus>;
+    UNDO_LAST_SYNC: ProtocolWithReturn<
+      null,
+      {
+        success: boolean;
+      }
+    >;
+    MARK_SEEN: ProtocolWithReturn<
+      { url: string },
+      {
+        success: boolean;
+      }
+    >;
+    PIN_PULL_REQUEST: ProtocolWithReturn<
+      { url: string; folderKey: string | null }, // null unpins the PR
+      {
+        success: boolean;
+      }
+    >;
+    RESTORE_PULL_REQUEST: ProtocolWithReturn<
+      { url: string; folderKey: string }, // held in the folder for another grace period
+      {
+        success: boolean;
+      }
+    >;
+    SNOOZE_PULL_REQUEST: ProtocolWithReturn<
+      { url: string; snooze: SnoozeRequest | null }, // null restores the PR
+      {
+        success: boolean;
       }
     >;
     GET_CONFIG: ProtocolWithReturn<null, LiveFolderConfig | null>;
     SET_CONFIG: ProtocolWithReturn<
-      Partial<LiveFolderConfig>,
+      LiveFolderConfigUpdate,
       {
         success: boolean;
       }
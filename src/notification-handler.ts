@@ -0,0 +1,135 @@
+import { type PullRequest } from "./github-handler";
+import { type QuietHours } from "./config-handler";
+
+export class NotificationHandler {
+  // NOTE: Maps notification ids to the PR urls opened on click, stored as
+  //       the background may be restarted before the user clicks
+  private readonly NOTIFICATIONS_KEY = "NOTIFICATIONS";
+  private readonly _GROUP_THRESHOLD = 3; // more new PRs share one notification
+  private readonly _debug: boolean;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+
+    browser.notifications.onClicked.addListener(async (notificationId) => {
+      const urls = await this._takeNotificationUrls(notificationId);
+      for (const url of urls) {
+        await browser.tabs.create({ url });
+      }
+      await browser.notifications.clear(notificationId);
+    });
+
+    browser.notifications.onClosed.addListener(async (notificationId) => {
+      await this._takeNotificationUrls(notificationId);
+    });
+  }
+
+  /**
+   * Whether `now` falls into the quiet hours, which may span midnight.
+   */
+  public isQuietTime(quietHours: QuietHours, now = new Date()) {
+    if (!quietHours.enabled) return false;
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(":").map(Number);
+      return hours * 60 + minutes;
+    };
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    const current = now.getHours() * 60 + now.getMinutes();
+
+    if (start === end) return false;
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  public async notifyNewPullRequests({
+    pullRequests,
+    quietHours,
+  }: {
+    pullRequests: PullRequest[];
+    quietHours: QuietHours;
+  }) {
+    if (pullRequests.length === 0) return;
+
+    if (this.isQuietTime(quietHours)) {
+      if (this._debug)
+        console.log(
+          "[NOTIFY] Quiet hours, skipping",
+          pullRequests.length,
+          "notifications",
+        );
+      return;
+    }
+
+    try {
+      if (pullRequests.length > this._GROUP_THRESHOLD) {
+        await this._createNotification({
+          title: `${pullRequests.length} new pull requests`,
+          message: pullRequests
+            .map((pr) => `${pr.repository_name}#${pr.number} ${pr.name}`)
+            .join("\n"),
+          urls: pullRequests.map((pr) => pr.url),
+        });
+        return;
+      }
+
+      for (const pr of pullRequests) {
+        await this._createNotification({
+          title: `${pr.organization}/${pr.repository_name}#${pr.number}`,
+          message: pr.author ? `${pr.name}\nby ${pr.author}` : pr.name,
+          urls: [pr.url],
+        });
+      }
+    } catch (error) {
+      console.error("[NOTIFY] Error creating notifications:", error);
+    }
+  }
+
+  private async _createNotification({
+    title,
+    message,
+    urls,
+  }: {
+    title: string;
+    message: string;
+    urls: string[];
+  }) {
+    const notificationId = await browser.notifications.create({
+      type: "basic",
+      iconUrl: browser.runtime.getURL("/icon/128.png"),
+      title,
+      message,
+    });
+
+    const data = await browser.storage.local.get(this.NOTIFICATIONS_KEY);
+    await browser.storage.local.set({
+      [this.NOTIFICATIONS_KEY]: {
+        ...(data?.[this.NOTIFICATIONS_KEY] ?? {}),
+        [notificationId]: urls,
+      },
+    });
+
+    if (this._debug) console.log("[NOTIFY]", title);
+  }
+
+  private async _takeNotificationUrls(notificationId: string) {
+    try {
+      const data = await browser.storage.local.get(this.NOTIFICATIONS_KEY);
+      const notifications = (data?.[this.NOTIFICATIONS_KEY] ?? {}) as Record<
+        string,
+        string[]
+      >;
+      const urls = notifications[notificationId] ?? [];
+      delete notifications[notificationId];
+      await browser.storage.local.set({
+        [this.NOTIFICATIONS_KEY]: notifications,
+      });
+      return urls;
+    } catch (error) {
+      console.error("[NOTIFY] Error reading notification:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { type Omnibox } from "webextension-polyfill";
+import { type LiveFolder } from "./live-folder";
+import { type TrackedPullRequest } from "./pull-request-store";
+import { matchesPullRequestSearch } from "./pull-request-search";
+
+export class OmniboxHandler {
+  private readonly _debug: boolean;
+  private readonly _lf: LiveFolder;
+
+  private readonly _MAX_SUGGESTIONS = 8;
+
+  constructor(lf: LiveFolder, { debug }: { debug: boolean }) {
+    this._lf = lf;
+    this._debug = debug;
+
+    browser.omnibox.setDefaultSuggestion({
+      description: "Search the tracked pull requests",
+    });
+    browser.omnibox.onInputChanged.addListener((text, suggest) =>
+      this._onInputChanged(text, suggest),
+    );
+    browser.omnibox.onInputEntered.addListener((text, disposition) =>
+      this._onInputEntered(text, disposition),
+    );
+  }
+
+  private async _search(text: string) {
+    const { pullRequests } = await this._lf.getTrackedPullRequests();
+    return pullRequests.filter(
+      (pr) => !pr.snooze && matchesPullRequestSearch(pr, text),
+    );
+  }
+
+  // NOTE: Chrome parses descriptions as XML, Firefox shows them as they are
+  private _escape(text: string) {
+    if (import.meta.env.BROWSER === "firefox") return text;
+    return text.replace(
+      /[&<>"']/g,
+      (char) =>
+        ({
+          "&": "&amp;",
+          "<": "&lt;",
+          ">": "&gt;",
+          '"': "&quot;",
+          "'": "&apos;",
+        })[char]!,
+    );
+  }
+
+  private _describe(pr: TrackedPullRequest) {
+    const repository = `${pr.organization}/${pr.repository_name}#${pr.number}`;
+    const author = pr.author ? ` by ${pr.author}` : "";
+    if (import.meta.env.BROWSER === "firefox") {
+      return `${pr.name} – ${repository}${author}`;
+    }
+    return `${this._escape(pr.name)} <dim>${this._escape(repository + author)}</dim>`;
+  }
+
+  private async _onInputChanged(
+    text: string,
+    suggest: (suggestions: Omnibox.SuggestResult[]) => void,
+  ) {
+    try {
+      const matches = await this._search(text);
+      suggest(
+        matches.slice(0, this._MAX_SUGGESTIONS).map((pr) => ({
+          content: pr.url,
+          description: this._describe(pr),
+        })),
+      );
+    } catch (error) {
+      console.error("[OMNIBOX] Error searching pull requests:", error);
+    }
+  }
+
+  /**
+   * Opens the chosen suggestion, or the best match of the typed text.
+   */
+  private async _onInputEntered(
+    text: string,
+    disposition: Omnibox.OnInputEnteredDisposition,
+  ) {
+    try {
+      const chosenUrl = getPullRequestBaseUrl(text);
+      const url = chosenUrl ?? (await this._search(text))[0]?.url;
+      if (!url) {
+        if (this._debug) console.log("[OMNIBOX] No pull request for", text);
+        return;
+      }
+
+      // NOTE: An open tab, e.g. in a live tab group, is focused instead
+      const [openTab] = await browser.tabs.query({ url });
+      if (!openTab && disposition === "currentTab") {
+        await browser.tabs.update({ url });
+        return;
+      }
+      await this._lf.openPullRequests([url], {
+        active: disposition !== "newBackgroundTab",
+      });
+    } catch (error) {
+      console.error("[OMNIBOX] Error opening pull request:", error);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+export type OwnedTabKind = "pull-request" | "header";
+
+export type OwnedTab = {
+  url: string; // when it was opened
+  kind: OwnedTabKind;
+};
+
+type OwnedItems = {
+  bookmarkIds: string[];
+  tabs: Record<string, OwnedTab>; // keyed by tab id
+};
+
+// NOTE: The bookmarks and tabs the extension created in the live folders.
+//       Syncs only ever update or remove these, anything the user added to
+//       a folder or a tab group is left alone.
+export class OwnershipHandler {
+  private readonly OWNED_KEY = "OWNED_ITEMS";
+  private readonly _debug: boolean;
+  // NOTE: Loaded once, so listeners and syncs change the same items
+  private _items: Promise<OwnedItems> | null = null;
+  private _initialized = false;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+
+    browser.bookmarks.onRemoved.addListener((id) => this.disownBookmark(id));
+    // NOTE: Tabs of a closing window come back with new ids on restore
+    browser.tabs.onRemoved.addListener((tabId, { isWindowClosing }) => {
+      if (!isWindowClosing) this.disownTab(tabId);
+    });
+  }
+
+  private async _read(): Promise<OwnedItems> {
+    try {
+      const data = await browser.storage.local.get(this.OWNED_KEY);
+      const items = data?.[this.OWNED_KEY] as OwnedItems | undefined;
+      this._initialized = !!items;
+      return items ?? { bookmarkIds: [], tabs: {} };
+    } catch (error) {
+      console.error("[OWNERSHIP] Error reading owned items:", error);
+      return { bookmarkIds: [], tabs: {} };
+    }
+  }
+
+  private _load() {
+    return (this._items ??= this._read());
+  }
+
+  private async _save() {
+    const items = await this._load();
+    await browser.storage.local.set({ [this.OWNED_KEY]: items });
+    this._initialized = true;
+  }
+
+  /**
+   * Whether items were recorded yet. Items of earlier versions, which
+   * didn't record them, have to be adopted first.
+   */
+  public async isInitialized() {
+    await this._load();
+    return this._initialized;
+  }
+
+  public async adopt({
+    bookmarkIds,
+    tabs,
+  }: {
+    bookmarkIds: string[];
+    tabs: Array<{ id: number; url: string }>;
+  }) {
+    const items = await this._load();
+    items.bookmarkIds.push(...bookmarkIds);
+    for (const { id, url } of tabs) {
+      items.tabs[id] = { url, kind: "pull-request" };
+    }
+    await this._save();
+    if (this._debug)
+      console.log(
+        "[OWNERSHIP] Adopted",
+        bookmarkIds.length,
+        "bookmarks and",
+        tabs.length,
+        "tabs",
+      );
+  }
+
+  public async getOwnedBookmarkIds() {
+    return new Set((await this._load()).bookmarkIds);
+  }
+
+  public async ownBookmark(id: string) {
+    (await this._load()).bookmarkIds.push(id);
+    await this._save();
+  }
+
+  public async disownBookmark(id: string) {
+    const items = await this._load();
+    if (!items.bookmarkIds.includes(id)) return;
+    items.bookmarkIds = items.bookmarkIds.filter((owned) => owned !== id);
+    await this._save();
+  }
+
+  public async getOwnedTab(tabId: number): Promise<OwnedTab | null> {
+    return (await this._load()).tabs[tabId] ?? null;
+  }
+
+  public async ownTab(tabId: number, url: string, kind: OwnedTabKind) {
+    (await this._load()).tabs[tabId] = { url, kind };
+    await this._save();
+  }
+
+  public async disownTab(tabId: number) {
+    const items = await this._load();
+    if (!items.tabs[tabId]) return;
+    delete items.tabs[tabId];
+    await this._save();
+  }
+
+  /**
+   * The owned tabs among the tabs of a group. Tab ids change when the
+   * browser restarts, so an owned tab which is gone is matched again by its
+   * url.
+   */
+  public async getOwnedTabs(groupTabs: chrome.tabs.Tab[]) {
+    const items = await this._load();
+    const allTabs = await browser.tabs.query({});
+    const existingIds = new Set(allTabs.map((tab) => String(tab.id)));
+    const existingUrls = new Set(allTabs.map((tab) => tab.url));
+    const lost = Object.entries(items.tabs).filter(
+      ([id]) => !existingIds.has(id),
+    );
+    // NOTE: Lost tabs may still be matched in the group of another folder
+    for (const [id, lostTab] of lost) {
+      if (!existingUrls.has(lostTab.url)) delete items.tabs[id];
+    }
+
+    const owned = new Map<number, OwnedTab>();
+    for (const tab of groupTabs) {
+      if (tab.id === undefined) continue;
+
+      const ownedTab = items.tabs[tab.id];
+      if (ownedTab) {
+        owned.set(tab.id, ownedTab);
+        continue;
+      }
+      const index = lost.findIndex(([, lostTab]) => lostTab.url === tab.url);
+      if (index === -1) continue;
+
+      const [[lostId, lostTab]] = lost.splice(index, 1);
+      delete items.tabs[lostId];
+      items.tabs[tab.id] = lostTab;
+      owned.set(tab.id, lostTab);
+    }
+
+    await this._save();
+    return owned;
+  }
+}
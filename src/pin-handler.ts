@@ -0,0 +1,132 @@
+import { type PullRequest } from "./github-handler";
+
+export type PinnedPullRequest = {
+  url: string;
+  name: string;
+  folderKey: string; // definition the PR is pinned to
+  pinnedAt: number;
+};
+
+// NOTE: Pinned PRs stay in their folder whether or not a query returns them
+export class PinHandler {
+  private readonly PINS_KEY = "PINNED_PULL_REQUESTS"; // keyed by PR url
+  private readonly _debug: boolean;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+  }
+
+  public async getPins(): Promise<Record<string, PinnedPullRequest>> {
+    try {
+      const data = await browser.storage.local.get(this.PINS_KEY);
+      return (data?.[this.PINS_KEY] as Record<string, PinnedPullRequest>) ?? {};
+    } catch (error) {
+      console.error("[PIN] Error reading pinned pull requests:", error);
+      return {};
+    }
+  }
+
+  private async _setPins(pins: Record<string, PinnedPullRequest>) {
+    await browser.storage.local.set({ [this.PINS_KEY]: pins });
+  }
+
+  /**
+   * Pins a pull request to a definition, moving it if it was pinned to
+   * another one.
+   */
+  public async pin({
+    url,
+    name,
+    folderKey,
+  }: {
+    url: string;
+    name: string;
+    folderKey: string;
+  }) {
+    const pins = await this.getPins();
+    pins[url] = { url, name, folderKey, pinnedAt: Date.now() };
+    await this._setPins(pins);
+    if (this._debug) console.log("[PIN] Pinned", url, "to", folderKey);
+  }
+
+  /**
+   * Unpins a pull request, returns the definition it was pinned to.
+   */
+  public async unpin(url: string) {
+    const pins = await this.getPins();
+    const folderKey = pins[url]?.folderKey ?? null;
+    if (!folderKey) return null;
+
+    delete pins[url];
+    await this._setPins(pins);
+    if (this._debug) console.log("[PIN] Unpinned", url);
+    return folderKey;
+  }
+
+  public async removeFolderPins(folderKey: string) {
+    const pins = await this.getPins();
+    const remaining = Object.fromEntries(
+      Object.entries(pins).filter(([, pin]) => pin.folderKey !== folderKey),
+    );
+    if (Object.keys(remaining).length === Object.keys(pins).length) return;
+    await this._setPins(remaining);
+  }
+
+  /**
+   * Adds the PRs pinned to a definition to the ones its queries returned.
+   * Pins of returned PRs take over their current name.
+   */
+  public async mergePinned(folderKey: string, pullRequests: PullRequest[]) {
+    const pins = await this.getPins();
+    const returned = new Map(pullRequests.map((pr) => [pr.url, pr]));
+    const merged = [...pullRequests];
+    let renamed = false;
+
+    for (const pin of Object.values(pins)) {
+      if (pin.folderKey !== folderKey) continue;
+
+      const pr = returned.get(pin.url);
+      if (pr) {
+        if (!pr.sources.includes("pinned")) pr.sources.push("pinned");
+        if (pr.name !== pin.name) {
+          pin.name = pr.name;
+          renamed = true;
+        }
+        continue;
+      }
+
+      const pinned = this._toPullRequest(pin);
+      if (pinned) merged.push(pinned);
+    }
+
+    if (renamed) await this._setPins(pins);
+    return merged;
+  }
+
+  private _toPullRequest(pin: PinnedPullRequest): PullRequest | null {
+    try {
+      const { hostname, pathname } = new URL(pin.url);
+      const [, organization, repository_name, , number] = pathname.split("/");
+      return {
+        host: hostname,
+        name: pin.name,
+        url: pin.url,
+        number: Number(number),
+        repository_name,
+        organization,
+        sources: ["pinned"],
+        author: null,
+        isDraft: false,
+        ciStatus: null,
+        labels: [],
+        commentCount: null,
+        reviewState: null,
+        createdAt: null,
+        updatedAt: null,
+      };
+    } catch (error) {
+      console.error("[PIN] Invalid pinned pull request", pin.url, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  type EditableFolderDefinition,
+  type LiveFolderConfig,
+  type LiveFolderConfigUpdate,
+  type PortableSettings,
+} from "./config-handler";
+import {
+  DEVICE_FOLDER_FIELDS,
+  portableSettingsSchema,
+} from "./settings-schema";
+import {
+  SETTINGS_SCHEMA_VERSION,
+  getSettingsVersion,
+  migrateSettings,
+} from "./settings-migrations";
+
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+
+export function toPortableSettings(
+  settings: LiveFolderConfig,
+): PortableSettings {
+  return {
+    schemaVersion: settings.schemaVersion,
+    dataSource: settings.dataSource,
+    githubHosts: settings.githubHosts.map(({ host }) => ({ host, token: "" })),
+    maxPages: settings.maxPages,
+    quietHours: settings.quietHours,
+    badgeMode: settings.badgeMode,
+    removalGrace: settings.removalGrace,
+    folders: settings.folders.map((folder) => {
+      const editable = { ...folder } as Partial<typeof folder>;
+      for (const field of DEVICE_FOLDER_FIELDS) delete editable[field];
+      return editable as EditableFolderDefinition;
+    }),
+  };
+}
+
+/**
+ * Migrates and validates settings of an exported file or another device.
+ */
+export function parsePortableSettings(
+  raw: unknown,
+):
+  | { settings: PortableSettings; error: null }
+  | { settings: null; error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { settings: null, error: "Settings must be a JSON object" };
+  }
+
+  const version = getSettingsVersion(raw as Record<string, unknown>);
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    return {
+      settings: null,
+      error: "Settings are from a newer version of live folder",
+    };
+  }
+
+  const result = portableSettingsSchema.safeParse(
+    migrateSettings(raw as Record<string, unknown>),
+  );
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    return {
+      settings: null,
+      error: `Invalid value at "${issue.path.join(".")}": ${issue.message}`,
+    };
+  }
+
+  return { settings: result.data, error: null };
+}
+
+/**
+ * Matches incoming folder definitions with existing ones, by key and then by
+ * name, so a folder shared by two devices keeps its tab group or bookmark
+ * folder. Returns the existing folder for each incoming key.
+ */
+export function matchFolders<T extends { key: string; name: string }>(
+  existing: T[],
+  incoming: Array<{ key: string; name: string }>,
+) {
+  const matches = new Map<string, T>();
+  const incomingKeys = new Set(incoming.map(({ key }) => key));
+  const claimed = new Set<string>();
+
+  for (const folder of incoming) {
+    const match = existing.find(({ key }) => key === folder.key);
+    if (match) {
+      matches.set(folder.key, match);
+      claimed.add(match.key);
+    }
+  }
+
+  for (const folder of incoming) {
+    if (matches.has(folder.key)) continue;
+    const match = existing.find(
+      ({ key, name }) =>
+        !claimed.has(key) &&
+        !incomingKeys.has(key) &&
+        name.toLowerCase() === folder.name.toLowerCase(),
+    );
+    if (match) {
+      matches.set(folder.key, match);
+      claimed.add(match.key);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Turns portable settings into an update of the current ones, keeping the
+ * tokens of known hosts.
+ */
+export function mergePortableSettings(
+  current: LiveFolderConfig,
+  portable: PortableSettings,
+): LiveFolderConfigUpdate {
+  const tokens = new Map(
+    current.githubHosts.map(({ host, token }) => [host, token]),
+  );
+
+  return {
+    dataSource: portable.dataSource,
+    maxPages: portable.maxPages,
+    quietHours: portable.quietHours,
+    badgeMode: portable.badgeMode,
+    removalGrace: portable.removalGrace,
+    githubHosts: portable.githubHosts.map(({ host, token }) => ({
+      host,
+      token: token || tokens.get(host) || "",
+    })),
+    folders: portable.folders,
+  };
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+      .map(([key, entry]) => [key, sortKeys(entry)]),
+  );
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+export function isSamePortableSettings(
+  a: PortableSettings,
+  b: PortableSettings,
+) {
+  return isSameValue(a, b);
+}
+
+/**
+ * Lists the changes between two portable settings in readable form.
+ */
+export function diffPortableSettings(
+  current: PortableSettings,
+  next: PortableSettings,
+) {
+  const changes: string[] = [];
+
+  if (current.dataSource !== next.dataSource) {
+    changes.push(`Data source: ${current.dataSource} → ${next.dataSource}`);
+  }
+  if (current.maxPages !== next.maxPages) {
+    changes.push(`Page limit: ${current.maxPages} → ${next.maxPages}`);
+  }
+  if (current.badgeMode !== next.badgeMode) {
+    changes.push(`Badge: ${current.badgeMode} → ${next.badgeMode}`);
+  }
+  if (!isSameValue(current.quietHours, next.quietHours)) {
+    changes.push("Quiet hours changed");
+  }
+  if (!isSameValue(current.removalGrace, next.removalGrace)) {
+    changes.push(
+      `Removal after: ${current.removalGrace.syncs} syncs or ${current.removalGrace.minutes} minutes → ${next.removalGrace.syncs} syncs or ${next.removalGrace.minutes} minutes`,
+    );
+  }
+
+  const currentHosts = new Set(current.githubHosts.map(({ host }) => host));
+  const nextHosts = new Set(next.githubHosts.map(({ host }) => host));
+  for (const host of nextHosts) {
+    if (!currentHosts.has(host)) changes.push(`Host added: ${host}`);
+  }
+  for (const host of currentHosts) {
+    if (!nextHosts.has(host)) changes.push(`Host removed: ${host}`);
+  }
+
+  const matches = matchFolders(current.folders, next.folders);
+  const matchedKeys = new Set([...matches.values()].map(({ key }) => key));
+
+  for (const folder of next.folders) {
+    const existing = matches.get(folder.key);
+    if (!existing) {
+      changes.push(`Folder added: ${folder.name}`);
+      continue;
+    }
+
+    const changedFields = (
+      Object.keys(folder) as Array<keyof EditableFolderDefinition>
+    ).filter(
+      (field) =>
+        field !== "key" && !isSameValue(existing[field], folder[field]),
+    );
+    if (changedFields.length > 0) {
+      changes.push(
+        `Folder changed: ${existing.name} (${changedFields.join(", ")})`,
+      );
+    }
+  }
+  for (const folder of current.folders) {
+    if (!matchedKeys.has(folder.key)) {
+      changes.push(`Folder removed: ${folder.name}`);
+    }
+  }
+
+  const currentOrder = current.folders
+    .map(({ key }) => key)
+    .filter((key) => matchedKeys.has(key));
+  const nextOrder = next.folders
+    .map(({ key }) => matches.get(key)?.key)
+    .filter((key) => key !== undefined);
+  if (!isSameValue(currentOrder, nextOrder)) {
+    changes.push("Folder order changed");
+  }
+
+  return changes;
+}
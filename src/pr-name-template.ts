@@ -0,0 +1,311 @@
+import { type PullRequest } from "./github-handler";
+
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+//
+// Syntax:
+//   %token%          value of a token, e.g. %repository% or %name%
+//   %token:40%       value truncated to 40 characters with an ellipsis
+//   {token:text}     text only rendered when the token has a value
+//   {!token:text}    text only rendered when the token has no value
+//   {token=x:text}   text only rendered when the token's raw value is x
+//   \%  \{  \}  \\   literal characters
+
+export const PR_NAME_TOKENS = {
+  repository: "Repository name",
+  organization: "Organization or owner",
+  name: "Pull request title",
+  number: "Pull request number",
+  author: "Author login",
+  labels: "Comma-separated labels",
+  comments: "Number of comments",
+  age: "Time since the PR was opened, e.g. 3d",
+  updated: "Time since the last update, e.g. 5h",
+  host: "GitHub host",
+  draft: "📝 for drafts",
+  ci: "✅ passing, ❌ failing, ⏳ pending checks",
+  review: "✅ approved, 🔁 changes requested, 👀 review required",
+  status: "🆕 not opened yet, 🔄 updated since you opened it",
+} as const;
+
+export type PrNameToken = keyof typeof PR_NAME_TOKENS;
+
+// NOTE: Derived from the records of the background, null once the PR was
+//       opened and didn't change since
+export type PullRequestStatus = "new" | "updated" | null;
+
+export type NamedPullRequest = PullRequest & { status?: PullRequestStatus };
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "token"; name: PrNameToken; maxLength: number | null }
+  | {
+      type: "conditional";
+      name: PrNameToken;
+      negate: boolean;
+      equals: string | null;
+      children: TemplateNode[];
+    };
+
+export type TemplateError = {
+  message: string;
+  index: number; // position in the format string
+};
+
+export const CI_EMOJI: Record<NonNullable<PullRequest["ciStatus"]>, string> = {
+  success: "✅",
+  failure: "❌",
+  pending: "⏳",
+};
+
+export const REVIEW_EMOJI: Record<
+  NonNullable<PullRequest["reviewState"]>,
+  string
+> = {
+  approved: "✅",
+  changes_requested: "🔁",
+  review_required: "👀",
+};
+
+export const STATUS_EMOJI: Record<NonNullable<PullRequestStatus>, string> = {
+  new: "🆕",
+  updated: "🔄",
+};
+
+const ELLIPSIS = "…";
+
+function isToken(name: string): name is PrNameToken {
+  return Object.hasOwn(PR_NAME_TOKENS, name);
+}
+
+/**
+ * Parses a name format into nodes. Invalid syntax is kept as literal text
+ * and reported in `errors`, so a broken format still renders something.
+ */
+export function parsePrNameTemplate(format: string) {
+  const errors: TemplateError[] = [];
+  let index = 0;
+
+  function parseNodes(inConditional: boolean): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = "";
+
+    const flushText = () => {
+      if (text) nodes.push({ type: "text", value: text });
+      text = "";
+    };
+
+    while (index < format.length) {
+      const char = format[index];
+
+      if (char === "\\" && index + 1 < format.length) {
+        text += format[index + 1];
+        index += 2;
+        continue;
+      }
+
+      if (char === "}") {
+        if (inConditional) break;
+        errors.push({ message: 'Unexpected "}"', index });
+      }
+
+      if (char === "%") {
+        const end = format.indexOf("%", index + 1);
+        const content = end === -1 ? "" : format.slice(index + 1, end);
+        const match = /^([a-z]+)(?::(\d+))?$/.exec(content);
+
+        if (end === -1 || !match || !isToken(match[1])) {
+          errors.push({
+            message:
+              end === -1
+                ? 'Placeholder is missing its closing "%"'
+                : `Unknown placeholder "%${content}%"`,
+            index,
+          });
+          text += char;
+          index++;
+          continue;
+        }
+
+        const maxLength = match[2] ? parseInt(match[2]) : null;
+        if (maxLength !== null && maxLength < 1) {
+          errors.push({ message: "Maximum length must be at least 1", index });
+        }
+
+        flushText();
+        nodes.push({
+          type: "token",
+          name: match[1],
+          maxLength: maxLength && maxLength > 0 ? maxLength : null,
+        });
+        index = end + 1;
+        continue;
+      }
+
+      if (char === "{") {
+        const start = index;
+        const header = /^\{(!?)([a-z]+)(?:=([^:}]*))?:/.exec(
+          format.slice(index),
+        );
+
+        if (!header || !isToken(header[2])) {
+          errors.push({
+            message: header
+              ? `Unknown condition "${header[2]}"`
+              : 'Condition must look like "{token:text}"',
+            index,
+          });
+          text += char;
+          index++;
+          continue;
+        }
+
+        flushText();
+        index += header[0].length;
+        const children = parseNodes(true);
+
+        if (format[index] === "}") {
+          index++;
+        } else {
+          errors.push({
+            message: 'Condition is missing its closing "}"',
+            index: start,
+          });
+        }
+
+        nodes.push({
+          type: "conditional",
+          name: header[2],
+          negate: header[1] === "!",
+          equals: header[3]?.trim().toLowerCase() ?? null,
+          children,
+        });
+        continue;
+      }
+
+      text += char;
+      index++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  const nodes = parseNodes(false);
+  return { nodes, errors };
+}
+
+/**
+ * Returns the first syntax error of a format as a readable message.
+ */
+export function validatePrNameTemplate(format: string): string | null {
+  const [error] = parsePrNameTemplate(format).errors;
+  return error ? `${error.message} at position ${error.index + 1}` : null;
+}
+
+export function formatAge(timestamp: number | null, now = Date.now()) {
+  if (timestamp === null) return "";
+
+  const minutes = Math.max(0, Math.floor((now - timestamp) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  return `${Math.floor(days / 7)}w`;
+}
+
+/**
+ * Raw value of a token, used by conditions. Empty when the PR has none.
+ */
+function getRawValue(name: PrNameToken, pr: NamedPullRequest, now: number) {
+  switch (name) {
+    case "repository":
+      return pr.repository_name;
+    case "organization":
+      return pr.organization;
+    case "name":
+      return pr.name;
+    case "number":
+      return pr.number.toString();
+    case "author":
+      return pr.author ?? "";
+    case "labels":
+      return pr.labels.join(", ");
+    case "comments":
+      return pr.commentCount ? pr.commentCount.toString() : "";
+    case "age":
+      return formatAge(pr.createdAt ?? pr.updatedAt, now);
+    case "updated":
+      return formatAge(pr.updatedAt, now);
+    case "host":
+      return pr.host;
+    case "draft":
+      return pr.isDraft ? "true" : "";
+    case "ci":
+      return pr.ciStatus ?? "";
+    case "review":
+      return pr.reviewState ?? "";
+    case "status":
+      return pr.status ?? "";
+  }
+}
+
+function getDisplayValue(name: PrNameToken, pr: NamedPullRequest, now: number) {
+  switch (name) {
+    case "draft":
+      return pr.isDraft ? "📝" : "";
+    case "ci":
+      return pr.ciStatus ? CI_EMOJI[pr.ciStatus] : "";
+    case "review":
+      return pr.reviewState ? REVIEW_EMOJI[pr.reviewState] : "";
+    case "status":
+      return pr.status ? STATUS_EMOJI[pr.status] : "";
+    default:
+      return getRawValue(name, pr, now);
+  }
+}
+
+function truncate(value: string, maxLength: number | null) {
+  if (maxLength === null || value.length <= maxLength) return value;
+  return value.slice(0, Math.max(0, maxLength - 1)).trimEnd() + ELLIPSIS;
+}
+
+export function renderPrNameTemplate(
+  nodes: TemplateNode[],
+  pr: NamedPullRequest,
+  now = Date.now(),
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "token":
+          return truncate(getDisplayValue(node.name, pr, now), node.maxLength);
+        case "conditional": {
+          const value = getRawValue(node.name, pr, now);
+          const matches =
+            node.equals === null
+              ? value.length > 0
+              : value.toLowerCase() === node.equals;
+          return matches !== node.negate
+            ? renderPrNameTemplate(node.children, pr, now)
+            : "";
+        }
+      }
+    })
+    .join("");
+}
+
+export function formatPrName({
+  format,
+  pr,
+  now,
+}: {
+  format: string;
+  pr: NamedPullRequest;
+  now?: number;
+}) {
+  const { nodes } = parsePrNameTemplate(format);
+  return renderPrNameTemplate(nodes, pr, now).trim() || pr.name;
+}
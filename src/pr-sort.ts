@@ -0,0 +1,83 @@
+import { type PullRequest } from "./github-handler";
+import { type PrSortOrder } from "./config-handler";
+
+/**
+ * Terms of a custom priority, e.g. "myorg/api, label:urgent, docs".
+ */
+function parseSortPriority(priority: string) {
+  return priority
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Index of the first term the PR matches, a repository ("org/repo" or
+ * "repo"), "label:<name>" or "author:<login>". Unmatched PRs come last.
+ */
+function getPriority(pr: PullRequest, terms: string[]) {
+  const repository = `${pr.organization}/${pr.repository_name}`.toLowerCase();
+  const index = terms.findIndex((term) => {
+    if (term.startsWith("label:")) {
+      const label = term.slice("label:".length);
+      return pr.labels.some((prLabel) => prLabel.toLowerCase() === label);
+    }
+    if (term.startsWith("author:")) {
+      return pr.author?.toLowerCase() === term.slice("author:".length);
+    }
+    return term.includes("/")
+      ? repository === term
+      : pr.repository_name.toLowerCase() === term;
+  });
+  return index === -1 ? terms.length : index;
+}
+
+// NOTE: PRs without the timestamp go last
+function compareTimestamps(a: number | null, b: number | null) {
+  return (a ?? Infinity) - (b ?? Infinity);
+}
+
+/**
+ * Sorts a copy of the pull requests, ties keep their order. "none" keeps
+ * the order of the sources.
+ */
+export function sortPullRequests<T extends PullRequest>(
+  pullRequests: T[],
+  { order, priority }: { order: PrSortOrder; priority: string },
+): T[] {
+  const terms = parseSortPriority(priority);
+  const compare: ((a: T, b: T) => number) | null = (() => {
+    switch (order) {
+      case "none":
+        return null;
+      case "repository":
+        return (a: T, b: T) =>
+          `${a.organization}/${a.repository_name}`.localeCompare(
+            `${b.organization}/${b.repository_name}`,
+          ) || a.number - b.number;
+      case "number":
+        return (a: T, b: T) => b.number - a.number;
+      case "updated":
+        // NOTE: The host pages rarely show update times, the opening time
+        //       stands in for them
+        return (a: T, b: T) => {
+          const updatedA = a.updatedAt ?? a.createdAt;
+          const updatedB = b.updatedAt ?? b.createdAt;
+          return compareTimestamps(
+            updatedA === null ? null : -updatedA,
+            updatedB === null ? null : -updatedB,
+          );
+        };
+      case "age":
+        return (a: T, b: T) => compareTimestamps(a.createdAt, b.createdAt);
+      case "review-requested":
+        return (a: T, b: T) =>
+          Number(!a.sources.includes("review-requested")) -
+          Number(!b.sources.includes("review-requested"));
+      case "custom":
+        return (a: T, b: T) => getPriority(a, terms) - getPriority(b, terms);
+    }
+  })();
+
+  return compare ? [...pullRequests].sort(compare) : [...pullRequests];
+}
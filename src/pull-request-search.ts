@@ -0,0 +1,37 @@
+import { type TrackedPullRequest } from "./pull-request-store";
+
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+
+/**
+ * Whether every term of the search is found in the title, number,
+ * repository, organization, author, labels or folders of the pull request.
+ * Terms like "#12" and "octo/repo" match the number and the repository.
+ */
+export function matchesPullRequestSearch(
+  pr: Pick<
+    TrackedPullRequest,
+    | "name"
+    | "number"
+    | "organization"
+    | "repository_name"
+    | "author"
+    | "labels"
+    | "folders"
+  >,
+  search: string,
+) {
+  const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [
+    pr.name,
+    `#${pr.number}`,
+    `${pr.organization}/${pr.repository_name}`,
+    pr.author ?? "",
+    ...pr.labels,
+    ...pr.folders,
+  ]
+    .join(" ")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
@@ -0,0 +1,165 @@
+import { type PullRequest } from "./github-handler";
+import { type Snooze } from "./snooze";
+import { type PullRequestStatus } from "./pr-name-template";
+
+export type StoredPullRequests = {
+  pullRequests: PullRequest[];
+  updatedAt: number;
+};
+
+// NOTE: Kept for every tracked PR, timestamps in ms
+export type PullRequestRecord = {
+  firstSeen: number; // first sync which returned it
+  lastSeen: number; // last sync which kept it in a folder
+  lastVisited: number | null; // last time the user opened it
+  updatedAt: number | null; // last update on GitHub
+};
+
+// NOTE: Served to the popup with the names of the folders tracking the PR
+export type TrackedPullRequest = PullRequest & {
+  folders: string[];
+  status: PullRequestStatus;
+  snooze: Snooze | null; // only while it hides the PR
+  pinned: boolean;
+};
+
+/**
+ * "new" until the user opened the PR, "updated" when it changed on GitHub
+ * since they last did.
+ */
+export function getPullRequestStatus(
+  record: PullRequestRecord | undefined,
+): PullRequestStatus {
+  if (!record || record.lastVisited === null) return "new";
+  if (record.updatedAt !== null && record.updatedAt > record.lastVisited) {
+    return "updated";
+  }
+  return null;
+}
+
+// NOTE: Pull requests of the last sync, keyed by folder definition, and a
+//       record of each tracked one, keyed by url
+export class PullRequestStore {
+  private readonly STORE_KEY = "PULL_REQUESTS";
+  private readonly RECORDS_KEY = "PULL_REQUEST_RECORDS";
+  private readonly _debug: boolean;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+  }
+
+  public async getAll(): Promise<Record<string, StoredPullRequests>> {
+    try {
+      const data = await browser.storage.local.get(this.STORE_KEY);
+      return (
+        (data?.[this.STORE_KEY] as Record<string, StoredPullRequests>) ?? {}
+      );
+    } catch (error) {
+      console.error("[PR-STORE] Error reading pull requests:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Pull requests of the last sync of a definition, null before its first one.
+   */
+  public async get(key: string): Promise<PullRequest[] | null> {
+    return (await this.getAll())[key]?.pullRequests ?? null;
+  }
+
+  /**
+   * Pull requests of all definitions, each one only once.
+   */
+  public async getAllPullRequests(): Promise<PullRequest[]> {
+    const pullRequests = new Map<string, PullRequest>();
+    for (const stored of Object.values(await this.getAll())) {
+      for (const pr of stored.pullRequests) {
+        if (!pullRequests.has(pr.url)) pullRequests.set(pr.url, pr);
+      }
+    }
+    return [...pullRequests.values()];
+  }
+
+  public async getRecords(): Promise<Record<string, PullRequestRecord>> {
+    try {
+      const data = await browser.storage.local.get(this.RECORDS_KEY);
+      return (
+        (data?.[this.RECORDS_KEY] as Record<string, PullRequestRecord>) ?? {}
+      );
+    } catch (error) {
+      console.error("[PR-STORE] Error reading pull request records:", error);
+      return {};
+    }
+  }
+
+  private async _setRecords(records: Record<string, PullRequestRecord>) {
+    await browser.storage.local.set({ [this.RECORDS_KEY]: records });
+  }
+
+  /**
+   * Records that the user opened a tracked pull request, returns whether its
+   * status changed.
+   */
+  public async markVisited(url: string) {
+    const records = await this.getRecords();
+    const record = records[url];
+    if (!record) return false;
+
+    const previousStatus = getPullRequestStatus(record);
+    record.lastVisited = Date.now();
+    await this._setRecords(records);
+    return previousStatus !== getPullRequestStatus(record);
+  }
+
+  public async set(key: string, pullRequests: PullRequest[]) {
+    try {
+      const all = await this.getAll();
+      all[key] = { pullRequests, updatedAt: Date.now() };
+      await browser.storage.local.set({ [this.STORE_KEY]: all });
+      await this._updateRecords(pullRequests);
+      if (this._debug)
+        console.log("[PR-STORE] Stored", pullRequests.length, "for", key);
+    } catch (error) {
+      console.error("[PR-STORE] Error storing pull requests:", error);
+    }
+  }
+
+  public async remove(key: string) {
+    try {
+      const all = await this.getAll();
+      delete all[key];
+      await browser.storage.local.set({ [this.STORE_KEY]: all });
+      await this._updateRecords([]);
+    } catch (error) {
+      console.error("[PR-STORE] Error removing pull requests:", error);
+    }
+  }
+
+  /**
+   * Updates the records of the pull requests of a sync and drops the ones
+   * which are no longer tracked, so a PR tracked again later is new again.
+   */
+  private async _updateRecords(pullRequests: PullRequest[]) {
+    const now = Date.now();
+    const records = await this.getRecords();
+
+    for (const pr of pullRequests) {
+      const record = (records[pr.url] ??= {
+        firstSeen: now,
+        lastSeen: now,
+        lastVisited: null,
+        updatedAt: null,
+      });
+      record.lastSeen = now;
+      record.updatedAt = pr.updatedAt ?? record.updatedAt;
+    }
+
+    const trackedUrls = new Set(
+      (await this.getAllPullRequests()).map((pr) => pr.url),
+    );
+    for (const url of Object.keys(records)) {
+      if (!trackedUrls.has(url)) delete records[url];
+    }
+    await this._setRecords(records);
+  }
+}
@@ -0,0 +1,244 @@
+import { type PullRequest } from "./github-handler";
+import { type RemovalGrace } from "./config-handler";
+
+// NOTE: A PR missing from the results of a sync, held in its folder
+type MissingPullRequest = {
+  pr: PullRequest;
+  missedSyncs: number; // consecutive syncs which didn't return it
+  missingSince: number;
+};
+
+export type RemovedPullRequest = {
+  pr: PullRequest;
+  folderKey: string; // definition it was removed from
+  removedAt: number;
+};
+
+// NOTE: What is kept of a folder, e.g. to undo a sync
+export type FolderRemovals = {
+  missing: Record<string, MissingPullRequest>; // keyed by PR url
+  removed: RemovedPullRequest[];
+};
+
+// NOTE: Pull requests only leave a folder once they have been missing for a
+//       while, e.g. not because of a GitHub glitch, and are kept in a
+//       "Recently removed" list afterwards
+export class RemovalHandler {
+  private readonly MISSING_KEY = "MISSING_PULL_REQUESTS"; // keyed by definition, then PR url
+  private readonly REMOVED_KEY = "REMOVED_PULL_REQUESTS";
+  private readonly _debug: boolean;
+
+  private readonly _REMOVED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+  private readonly _MAX_REMOVED = 50;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+  }
+
+  private async _getMissing(): Promise<
+    Record<string, Record<string, MissingPullRequest>>
+  > {
+    try {
+      const data = await browser.storage.local.get(this.MISSING_KEY);
+      return (
+        (data?.[this.MISSING_KEY] as Record<
+          string,
+          Record<string, MissingPullRequest>
+        >) ?? {}
+      );
+    } catch (error) {
+      console.error("[REMOVAL] Error reading missing pull requests:", error);
+      return {};
+    }
+  }
+
+  private async _setMissing(
+    missing: Record<string, Record<string, MissingPullRequest>>,
+  ) {
+    await browser.storage.local.set({ [this.MISSING_KEY]: missing });
+  }
+
+  /**
+   * Recently removed pull requests, most recent first.
+   */
+  public async getRemoved(): Promise<RemovedPullRequest[]> {
+    try {
+      const data = await browser.storage.local.get(this.REMOVED_KEY);
+      const removed = (data?.[this.REMOVED_KEY] as RemovedPullRequest[]) ?? [];
+      const now = Date.now();
+      return removed.filter(
+        ({ removedAt }) => now - removedAt < this._REMOVED_RETENTION,
+      );
+    } catch (error) {
+      console.error("[REMOVAL] Error reading removed pull requests:", error);
+      return [];
+    }
+  }
+
+  private async _setRemoved(removed: RemovedPullRequest[]) {
+    await browser.storage.local.set({
+      [this.REMOVED_KEY]: removed.slice(0, this._MAX_REMOVED),
+    });
+  }
+
+  /**
+   * Adds the PRs of the previous sync which are missing from a complete
+   * fetch, until they have been missing for the syncs or minutes of the
+   * `grace`. The ones past that are moved to the removed list. PRs only
+   * there because of a pin are left out, the user unpinned them.
+   */
+  public async holdMissing({
+    folderKey,
+    previous,
+    pullRequests,
+    grace,
+  }: {
+    folderKey: string;
+    previous: PullRequest[];
+    pullRequests: PullRequest[];
+    grace: RemovalGrace;
+  }) {
+    const now = Date.now();
+    const missing = await this._getMissing();
+    const folderMissing = missing[folderKey] ?? {};
+    const currentUrls = new Set(pullRequests.map((pr) => pr.url));
+    const held: PullRequest[] = [];
+    const removed: RemovedPullRequest[] = [];
+    const nextMissing: Record<string, MissingPullRequest> = {};
+
+    // NOTE: Restored PRs are held without being in the previous sync
+    const candidates = new Map(previous.map((pr) => [pr.url, pr]));
+    for (const { pr } of Object.values(folderMissing)) {
+      if (!candidates.has(pr.url)) candidates.set(pr.url, pr);
+    }
+
+    for (const pr of candidates.values()) {
+      if (currentUrls.has(pr.url)) continue;
+      if (pr.sources.every((source) => source === "pinned")) continue;
+
+      const entry = folderMissing[pr.url] ?? {
+        pr,
+        missedSyncs: 0,
+        missingSince: now,
+      };
+      entry.missedSyncs += 1;
+
+      if (
+        entry.missedSyncs >= grace.syncs ||
+        now - entry.missingSince >= grace.minutes * 60 * 1000
+      ) {
+        removed.push({ pr: entry.pr, folderKey, removedAt: now });
+        continue;
+      }
+      nextMissing[pr.url] = entry;
+      held.push(entry.pr);
+    }
+
+    if (Object.keys(nextMissing).length > 0) {
+      missing[folderKey] = nextMissing;
+    } else {
+      delete missing[folderKey];
+    }
+    await this._setMissing(missing);
+
+    // NOTE: PRs returned again leave the removed list of the folder
+    const previouslyRemoved = await this.getRemoved();
+    const remaining = previouslyRemoved.filter(
+      (entry) =>
+        entry.folderKey !== folderKey || !currentUrls.has(entry.pr.url),
+    );
+    if (removed.length > 0 || remaining.length !== previouslyRemoved.length) {
+      await this._setRemoved([...removed, ...remaining]);
+    }
+
+    if (this._debug && (held.length > 0 || removed.length > 0)) {
+      console.log(
+        "[REMOVAL]",
+        folderKey,
+        "held:",
+        held.length,
+        "removed:",
+        removed.length,
+      );
+    }
+    return [...pullRequests, ...held];
+  }
+
+  /**
+   * Takes a pull request off the removed list, returns its entry.
+   */
+  public async takeRemoved(url: string, folderKey: string) {
+    const removed = await this.getRemoved();
+    const entry = removed.find(
+      (entry) => entry.pr.url === url && entry.folderKey === folderKey,
+    );
+    if (!entry) return null;
+
+    await this._setRemoved(removed.filter((other) => other !== entry));
+    return entry;
+  }
+
+  /**
+   * Holds a removed pull request in its folder again for a whole grace
+   * period, it leaves again unless a sync returns it by then.
+   */
+  public async restore({ pr, folderKey }: RemovedPullRequest) {
+    const missing = await this._getMissing();
+    missing[folderKey] = {
+      ...missing[folderKey],
+      // NOTE: The sync right after the restore doesn't count
+      [pr.url]: { pr, missedSyncs: -1, missingSince: Date.now() },
+    };
+    await this._setMissing(missing);
+  }
+
+  public async getFolderState(folderKey: string): Promise<FolderRemovals> {
+    const missing = await this._getMissing();
+    const removed = await this.getRemoved();
+    return {
+      missing: missing[folderKey] ?? {},
+      removed: removed.filter((entry) => entry.folderKey === folderKey),
+    };
+  }
+
+  /**
+   * Puts back the state of a folder from before a sync. Its missing PRs get
+   * a new grace period, so the next sync doesn't remove them right away.
+   */
+  public async restoreFolderState(
+    folderKey: string,
+    { missing, removed }: FolderRemovals,
+  ) {
+    const now = Date.now();
+    const allMissing = await this._getMissing();
+    if (Object.keys(missing).length > 0) {
+      allMissing[folderKey] = Object.fromEntries(
+        Object.entries(missing).map(([url, entry]) => [
+          url,
+          { ...entry, missedSyncs: 0, missingSince: now },
+        ]),
+      );
+    } else {
+      delete allMissing[folderKey];
+    }
+    await this._setMissing(allMissing);
+
+    const otherRemoved = (await this.getRemoved()).filter(
+      (entry) => entry.folderKey !== folderKey,
+    );
+    await this._setRemoved(
+      [...removed, ...otherRemoved].sort((a, b) => b.removedAt - a.removedAt),
+    );
+  }
+
+  public async removeFolderEntries(folderKey: string) {
+    const missing = await this._getMissing();
+    delete missing[folderKey];
+    await this._setMissing(missing);
+
+    const removed = await this.getRemoved();
+    await this._setRemoved(
+      removed.filter((entry) => entry.folderKey !== folderKey),
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+
+export type CustomQuery = {
+  id: string;
+  name: string;
+  query: string; // GitHub search syntax, e.g. "is:open author:@me"
+};
+
+const PR_QUALIFIER = /(^|\s)(is|type):(pr|pull-request)(\s|$)/i;
+const ISSUE_QUALIFIER = /(^|\s)(is|type):issue(\s|$)/i;
+const EMPTY_QUALIFIER = /(^|\s)(-?[a-z-]+):(\s|$)/i;
+
+/**
+ * Collapses whitespace and makes sure the query only matches pull requests.
+ */
+export function normalizeSearchQuery(query: string) {
+  const normalized = query.trim().replace(/\s+/g, " ");
+  return PR_QUALIFIER.test(normalized) ? normalized : `is:pr ${normalized}`;
+}
+
+/**
+ * Returns a human readable error for queries GitHub would reject or that
+ * can't return pull requests, or null if the query looks valid.
+ */
+export function validateSearchQuery(query: string): string | null {
+  const trimmed = query.trim();
+
+  if (!trimmed) return "Query is required";
+
+  if ((trimmed.match(/"/g) ?? []).length % 2 !== 0) {
+    return "Query has an unclosed quote";
+  }
+
+  if (ISSUE_QUALIFIER.test(trimmed)) {
+    return "Query has to search pull requests, not issues";
+  }
+
+  const emptyQualifier = trimmed.match(EMPTY_QUALIFIER);
+  if (emptyQualifier) {
+    return `Qualifier "${emptyQualifier[2]}:" is missing a value`;
+  }
+
+  return null;
+}
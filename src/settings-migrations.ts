@@ -0,0 +1,51 @@
+type StoredSettings = Record<string, unknown>;
+
+/**
+ * Ordered chain of migrations, `SETTINGS_MIGRATIONS[n]` migrates version
+ * `n + 1` to `n + 2`. Settings stored before versioning are version 1.
+ * Append new migrations, never change released ones.
+ */
+const SETTINGS_MIGRATIONS: Array<(settings: StoredSettings) => StoredSettings> =
+  [
+    // 1 -> 2: The single folder becomes the first folder definition
+    (settings) => {
+      if (Array.isArray(settings.folders)) return settings;
+
+      const { dataSource, githubHosts, maxPages, ...legacyFolder } = settings;
+      return {
+        dataSource,
+        githubHosts,
+        maxPages,
+        folders: [{ ...legacyFolder, key: crypto.randomUUID() }],
+      };
+    },
+  ];
+
+export const SETTINGS_SCHEMA_VERSION = SETTINGS_MIGRATIONS.length + 1;
+
+export function getSettingsVersion(settings: StoredSettings) {
+  return typeof settings.schemaVersion === "number"
+    ? settings.schemaVersion
+    : 1;
+}
+
+/**
+ * Runs the migrations between the stored version and the current one.
+ * Settings of a newer version (after a downgrade) are left untouched.
+ */
+export function migrateSettings(settings: StoredSettings): StoredSettings {
+  let migrated = settings;
+
+  for (
+    let version = getSettingsVersion(settings);
+    version < SETTINGS_SCHEMA_VERSION;
+    version++
+  ) {
+    migrated = {
+      ...SETTINGS_MIGRATIONS[version - 1](migrated),
+      schemaVersion: version + 1,
+    };
+  }
+
+  return migrated;
+}
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import {
+  type LiveFolderConfig,
+  type LiveFolderDefinition,
+} from "./config-handler";
+
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+
+export const TAB_GROUP_COLORS = [
+  "grey",
+  "blue",
+  "red",
+  "yellow",
+  "green",
+  "pink",
+  "purple",
+  "cyan",
+  "orange",
+] as const;
+
+export const PR_FILTERS = [
+  "assigned",
+  "review-requested",
+  "both",
+  "none",
+] as const;
+
+export const DATA_SOURCES = ["html", "api"] as const;
+
+export const BADGE_MODES = ["total", "unseen", "off"] as const;
+
+export const BOOKMARK_GROUPINGS = [
+  "none",
+  "organization",
+  "repository",
+  "source",
+] as const;
+
+export const PR_SORT_ORDERS = [
+  "none",
+  "repository",
+  "number",
+  "updated",
+  "age",
+  "review-requested",
+  "custom",
+] as const;
+
+// NOTE: Fields which only make sense on the device that created them
+export const DEVICE_FOLDER_FIELDS = [
+  "id",
+  "tabGroupId",
+  "lastPrUpdate",
+  "lastPrCount",
+] as const;
+
+const customQuerySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  query: z.string(),
+});
+
+const headerLinkSchema = z.object({
+  title: z.string(),
+  url: z.string().url(),
+});
+
+const quietHoursSchema = z.object({
+  enabled: z.boolean(),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+});
+
+const removalGraceSchema = z.object({
+  syncs: z.number().int().min(1).max(20),
+  minutes: z.number().int().min(1).max(1440),
+});
+
+const githubHostSchema = z.object({
+  host: z.string().min(1),
+  token: z.string(),
+});
+
+// NOTE: Every stored field is validated on its own, so a single invalid value
+//       falls back to its default instead of resetting the whole config
+const FOLDER_FIELD_SCHEMAS: {
+  [K in keyof LiveFolderDefinition]: z.ZodType<LiveFolderDefinition[K]>;
+} = {
+  key: z.string().min(1),
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  refreshInterval: z.number().int().positive(),
+  prNameFormat: z.string().trim().min(1),
+  lastPrUpdate: z.number().nonnegative(),
+  lastPrCount: z.number().int().nonnegative(),
+  tabGroupId: z.number().int(),
+  tabGroupColor: z.enum(TAB_GROUP_COLORS),
+  prFilter: z.enum(PR_FILTERS),
+  organizationFilter: z.string(),
+  customQueries: z.array(customQuerySchema),
+  groupBy: z.enum(BOOKMARK_GROUPINGS),
+  notifySources: z.array(z.string()),
+  headerLinks: z.array(headerLinkSchema),
+  sortOrder: z.enum(PR_SORT_ORDERS),
+  sortPriority: z.string(),
+};
+
+const SETTINGS_FIELD_SCHEMAS: {
+  [K in keyof Omit<LiveFolderConfig, "folders">]: z.ZodType<
+    LiveFolderConfig[K]
+  >;
+} = {
+  schemaVersion: z.number().int().positive(),
+  dataSource: z.enum(DATA_SOURCES),
+  githubHosts: z.array(githubHostSchema).min(1),
+  maxPages: z.number().int().min(1).max(50),
+  syncSettings: z.boolean(),
+  quietHours: quietHoursSchema,
+  badgeMode: z.enum(BADGE_MODES),
+  removalGrace: removalGraceSchema,
+};
+
+/**
+ * Strict schema of exported and synced settings, see `PortableSettings`.
+ */
+export const portableSettingsSchema = z.object({
+  schemaVersion: SETTINGS_FIELD_SCHEMAS.schemaVersion,
+  dataSource: SETTINGS_FIELD_SCHEMAS.dataSource,
+  githubHosts: z
+    .array(githubHostSchema.extend({ token: z.string().default("") }))
+    .min(1),
+  maxPages: SETTINGS_FIELD_SCHEMAS.maxPages,
+  quietHours: quietHoursSchema.default({
+    enabled: false,
+    start: "22:00",
+    end: "08:00",
+  }),
+  badgeMode: z.enum(BADGE_MODES).default("total"),
+  removalGrace: removalGraceSchema.default({ syncs: 3, minutes: 10 }),
+  folders: z
+    .array(
+      z.object({
+        key: FOLDER_FIELD_SCHEMAS.key,
+        name: FOLDER_FIELD_SCHEMAS.name,
+        refreshInterval: FOLDER_FIELD_SCHEMAS.refreshInterval,
+        prNameFormat: FOLDER_FIELD_SCHEMAS.prNameFormat,
+        tabGroupColor: FOLDER_FIELD_SCHEMAS.tabGroupColor,
+        prFilter: FOLDER_FIELD_SCHEMAS.prFilter,
+        organizationFilter: FOLDER_FIELD_SCHEMAS.organizationFilter,
+        customQueries: FOLDER_FIELD_SCHEMAS.customQueries,
+        groupBy: z.enum(BOOKMARK_GROUPINGS).default("none"),
+        notifySources: z.array(z.string()).default(["review-requested"]),
+        headerLinks: z.array(headerLinkSchema).default([]),
+        sortOrder: z.enum(PR_SORT_ORDERS).default("none"),
+        sortPriority: z.string().default(""),
+      }),
+    )
+    .min(1),
+});
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateFields<T extends object>(
+  stored: Record<string, unknown>,
+  schemas: { [K in keyof T]: z.ZodType<T[K]> },
+  defaults: T,
+  onInvalid: (field: string) => void,
+) {
+  const validated = { ...stored } as Record<string, unknown>;
+
+  for (const field of Object.keys(schemas) as Array<keyof T & string>) {
+    const result = schemas[field].safeParse(stored[field]);
+    if (result.success) {
+      validated[field] = result.data;
+    } else {
+      if (stored[field] !== undefined) onInvalid(field);
+      validated[field] = defaults[field];
+    }
+  }
+
+  return validated as T;
+}
+
+/**
+ * Validates stored settings against the schema. Invalid or missing values are
+ * replaced by their defaults, unknown values are kept as they are.
+ */
+export function validateSettings({
+  stored,
+  defaults,
+  defaultFolder,
+  onInvalid = () => {},
+}: {
+  stored: unknown;
+  defaults: LiveFolderConfig;
+  defaultFolder: Omit<LiveFolderDefinition, "key">;
+  onInvalid?: (field: string) => void;
+}): LiveFolderConfig {
+  if (!isRecord(stored)) return defaults;
+
+  const { folders, ...rest } = stored;
+  const settings = validateFields<Omit<LiveFolderConfig, "folders">>(
+    rest,
+    SETTINGS_FIELD_SCHEMAS,
+    defaults,
+    onInvalid,
+  );
+
+  const seenKeys = new Set<string>();
+  const validatedFolders = (Array.isArray(folders) ? folders : [])
+    .filter(isRecord)
+    .map((folder) =>
+      validateFields<LiveFolderDefinition>(
+        folder,
+        FOLDER_FIELD_SCHEMAS,
+        { ...defaultFolder, key: crypto.randomUUID() },
+        (field) => onInvalid(`folders.${field}`),
+      ),
+    )
+    .filter(({ key }) => {
+      if (seenKeys.has(key)) return false;
+      seenKeys.add(key);
+      return true;
+    });
+
+  return {
+    ...settings,
+    folders: validatedFolders.length > 0 ? validatedFolders : defaults.folders,
+  };
+}
@@ -0,0 +1,81 @@
+import { type PullRequest } from "./github-handler";
+import { isSnoozeActive, type Snooze } from "./snooze";
+
+export class SnoozeHandler {
+  private readonly SNOOZES_KEY = "SNOOZED_PULL_REQUESTS"; // keyed by PR url
+  private readonly _debug: boolean;
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+  }
+
+  public async getSnoozes(): Promise<Record<string, Snooze>> {
+    try {
+      const data = await browser.storage.local.get(this.SNOOZES_KEY);
+      return (data?.[this.SNOOZES_KEY] as Record<string, Snooze>) ?? {};
+    } catch (error) {
+      console.error("[SNOOZE] Error reading snoozes:", error);
+      return {};
+    }
+  }
+
+  private async _setSnoozes(snoozes: Record<string, Snooze>) {
+    await browser.storage.local.set({ [this.SNOOZES_KEY]: snoozes });
+  }
+
+  /**
+   * Snoozes a pull request, or brings it back when `snooze` is null.
+   */
+  public async setSnooze(url: string, snooze: Snooze | null) {
+    const snoozes = await this.getSnoozes();
+    if (snooze) {
+      snoozes[url] = snooze;
+    } else {
+      delete snoozes[url];
+    }
+    await this._setSnoozes(snoozes);
+    if (this._debug) console.log("[SNOOZE]", url, snooze?.type ?? "restored");
+  }
+
+  /**
+   * Splits pull requests into visible and snoozed ones. Expired snoozes are
+   * removed, so a PR snoozed until its update isn't hidden by older updates.
+   */
+  public async filterPullRequests(pullRequests: PullRequest[]) {
+    const snoozes = await this.getSnoozes();
+    const visible: PullRequest[] = [];
+    const snoozed: PullRequest[] = [];
+    let expired = 0;
+
+    for (const pr of pullRequests) {
+      const snooze = snoozes[pr.url];
+      if (snooze && isSnoozeActive(snooze, pr)) {
+        snoozed.push(pr);
+        continue;
+      }
+      if (snooze) {
+        delete snoozes[pr.url];
+        expired++;
+      }
+      visible.push(pr);
+    }
+
+    if (expired > 0) {
+      await this._setSnoozes(snoozes);
+      if (this._debug) console.log("[SNOOZE] Expired snoozes:", expired);
+    }
+
+    return { visible, snoozed };
+  }
+
+  /**
+   * Time of the earliest timed snooze, to sync again when it expires.
+   */
+  public async getNextExpiry(now = Date.now()) {
+    const untilTimes = Object.values(await this.getSnoozes())
+      .filter((snooze) => snooze.type === "until")
+      .map((snooze) => snooze.until)
+      .filter((until) => until > now);
+    return untilTimes.length > 0 ? Math.min(...untilTimes) : null;
+  }
+}
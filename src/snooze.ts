@@ -0,0 +1,91 @@
+import { type PullRequest } from "./github-handler";
+
+// NOTE: Shared by the background and the popup, keep it free of extension APIs
+
+export type Snooze =
+  | { type: "until"; until: number } // timestamp in ms
+  | { type: "update"; updatedAt: number | null } // PR update time when snoozed
+  | { type: "ignore" };
+
+// NOTE: "until it's updated" is resolved against the tracked PR in the background
+export type SnoozeRequest =
+  | Exclude<Snooze, { type: "update" }>
+  | { type: "update" };
+
+export const SNOOZE_PRESETS = {
+  hour: "For an hour",
+  tomorrow: "Until tomorrow morning",
+  week: "Until next Monday",
+  update: "Until it's updated",
+  ignore: "Ignore",
+} as const;
+
+export type SnoozePreset = keyof typeof SNOOZE_PRESETS;
+
+/**
+ * The presets which can run out. "Until it's updated" needs a data source
+ * with update times, it would never end otherwise.
+ */
+export function getSnoozePresets({ updateTimes }: { updateTimes: boolean }) {
+  return (Object.entries(SNOOZE_PRESETS) as [SnoozePreset, string][]).filter(
+    ([preset]) => updateTimes || preset !== "update",
+  );
+}
+
+const HOUR = 60 * 60 * 1000;
+const MORNING_HOUR = 9;
+
+export function getSnoozeRequest(
+  preset: SnoozePreset,
+  now = new Date(),
+): SnoozeRequest {
+  switch (preset) {
+    case "hour":
+      return { type: "until", until: now.getTime() + HOUR };
+    case "tomorrow": {
+      const until = new Date(now);
+      until.setDate(until.getDate() + 1);
+      until.setHours(MORNING_HOUR, 0, 0, 0);
+      return { type: "until", until: until.getTime() };
+    }
+    case "week": {
+      const until = new Date(now);
+      until.setDate(until.getDate() + ((8 - until.getDay()) % 7 || 7));
+      until.setHours(MORNING_HOUR, 0, 0, 0);
+      return { type: "until", until: until.getTime() };
+    }
+    case "update":
+      return { type: "update" };
+    case "ignore":
+      return { type: "ignore" };
+  }
+}
+
+/**
+ * Whether the snooze still hides the pull request.
+ */
+export function isSnoozeActive(
+  snooze: Snooze,
+  pr: Pick<PullRequest, "updatedAt">,
+  now = Date.now(),
+) {
+  switch (snooze.type) {
+    case "until":
+      return now < snooze.until;
+    case "update":
+      return pr.updatedAt === null || pr.updatedAt <= (snooze.updatedAt ?? 0);
+    case "ignore":
+      return true;
+  }
+}
+
+export function describeSnooze(snooze: Snooze) {
+  switch (snooze.type) {
+    case "until":
+      return `Snoozed until ${new Date(snooze.until).toLocaleString()}`;
+    case "update":
+      return "Snoozed until it's updated";
+    case "ignore":
+      return "Ignored";
+  }
+}
@@ -0,0 +1,241 @@
+import { type Bookmarks } from "webextension-polyfill";
+import { type PullRequest } from "./github-handler";
+import { type OwnedTabKind, type OwnershipHandler } from "./ownership-handler";
+import { type FolderRemovals } from "./removal-handler";
+
+export type JournalEntry =
+  | { type: "bookmark-created"; id: string; url: string | null }
+  | { type: "bookmark-updated"; id: string; title: string; previous: string }
+  | { type: "bookmark-moved"; id: string; parentId: string; index: number } // index before the move
+  | {
+      type: "bookmark-removed";
+      id: string;
+      parentId: string;
+      index: number | null;
+      title: string;
+      url: string | null; // null for subfolders
+    }
+  | { type: "tab-created"; tabId: number; url: string }
+  | { type: "tab-closed"; groupId: number; url: string; kind: OwnedTabKind }
+  | { type: "tab-ungrouped"; tabId: number; groupId: number; url: string }
+  | { type: "tab-moved"; tabId: number; groupId: number; index: number }; // index before the move
+
+// NOTE: State of a synced definition before the sync
+export type JournalSnapshot = {
+  pullRequests: PullRequest[] | null; // stored PRs, null before the first sync
+  removals: FolderRemovals;
+};
+
+type Journal = {
+  syncedAt: number;
+  entries: JournalEntry[];
+  snapshots: Record<string, JournalSnapshot>;
+};
+
+// NOTE: Served to the popup to offer undoing the last sync
+export type JournalSummary = {
+  syncedAt: number;
+  added: number;
+  removed: number;
+};
+
+// NOTE: Records what a sync changes in the bookmarks and tabs, so the last
+//       sync which added or removed anything can be undone
+export class SyncJournalHandler {
+  private readonly JOURNAL_KEY = "LAST_SYNC_JOURNAL";
+  private readonly _debug: boolean;
+  private readonly _ownership: OwnershipHandler;
+  private _journal: Journal | null = null; // of the running sync
+
+  constructor(ownership: OwnershipHandler, { debug }: { debug: boolean }) {
+    this._ownership = ownership;
+    this._debug = debug;
+  }
+
+  public begin() {
+    this._journal = { syncedAt: Date.now(), entries: [], snapshots: {} };
+  }
+
+  public record(entry: JournalEntry) {
+    this._journal?.entries.push(entry);
+  }
+
+  /**
+   * Keeps the state of a definition from before its first change.
+   */
+  public snapshot(folderKey: string, snapshot: JournalSnapshot) {
+    if (!this._journal || folderKey in this._journal.snapshots) return;
+    this._journal.snapshots[folderKey] = snapshot;
+  }
+
+  public recordBookmarkRemoved(bookmark: Bookmarks.BookmarkTreeNode) {
+    this.record({
+      type: "bookmark-removed",
+      id: bookmark.id,
+      parentId: bookmark.parentId!,
+      index: bookmark.index ?? null,
+      title: bookmark.title,
+      url: bookmark.url ?? null,
+    });
+  }
+
+  /**
+   * Stores the journal of the running sync, unless it only renamed
+   * bookmarks. The journal of an earlier sync is kept then.
+   */
+  public async commit() {
+    const journal = this._journal;
+    this._journal = null;
+    if (!journal) return;
+
+    const { added, removed } = this._summarize(journal);
+    if (added === 0 && removed === 0) return;
+
+    await browser.storage.local.set({ [this.JOURNAL_KEY]: journal });
+    if (this._debug)
+      console.log("[JOURNAL] Stored", journal.entries.length, "changes");
+  }
+
+  private async _getJournal(): Promise<Journal | null> {
+    try {
+      const data = await browser.storage.local.get(this.JOURNAL_KEY);
+      return (data?.[this.JOURNAL_KEY] as Journal) ?? null;
+    } catch (error) {
+      console.error("[JOURNAL] Error reading the sync journal:", error);
+      return null;
+    }
+  }
+
+  private _summarize(journal: Journal): JournalSummary {
+    const count = (types: JournalEntry["type"][]) =>
+      journal.entries.filter(
+        (entry) =>
+          types.includes(entry.type) &&
+          (!("url" in entry) || entry.url !== null),
+      ).length;
+    return {
+      syncedAt: journal.syncedAt,
+      added: count(["bookmark-created", "tab-created"]),
+      removed: count(["bookmark-removed", "tab-closed", "tab-ungrouped"]),
+    };
+  }
+
+  public async getSummary() {
+    const journal = await this._getJournal();
+    return journal ? this._summarize(journal) : null;
+  }
+
+  /**
+   * Reverts the changes of the last stored journal, newest first, and
+   * returns its snapshots to put back. Closed tabs are reopened in their
+   * group if it still exists.
+   */
+  public async undo() {
+    const journal = await this._getJournal();
+    if (!journal) return null;
+    await browser.storage.local.remove(this.JOURNAL_KEY);
+
+    // NOTE: Restored subfolders get new ids, the bookmarks in them follow
+    const restoredIds = new Map<string, string>();
+    for (const entry of [...journal.entries].reverse()) {
+      try {
+        await this._revert(entry, restoredIds);
+      } catch (error) {
+        // The user may have changed it since, e.g. closed the tab
+        if (this._debug)
+          console.log("[JOURNAL] Could not revert", entry.type, error);
+      }
+    }
+
+    if (this._debug)
+      console.log("[JOURNAL] Reverted", journal.entries.length, "changes");
+    return journal.snapshots;
+  }
+
+  private async _revert(entry: JournalEntry, restoredIds: Map<string, string>) {
+    switch (entry.type) {
+      case "bookmark-created": {
+        // NOTE: Its own bookmarks are gone by now, anything left in a
+        //       subfolder is the user's and the subfolder is kept
+        if (entry.url === null) {
+          const children = await browser.bookmarks.getChildren(entry.id);
+          if (children.length > 0) break;
+        }
+        await browser.bookmarks.remove(entry.id);
+        break;
+      }
+      case "bookmark-updated":
+        await browser.bookmarks.update(entry.id, { title: entry.previous });
+        break;
+      case "bookmark-moved": {
+        const parentId = restoredIds.get(entry.parentId) ?? entry.parentId;
+        const [current] = await browser.bookmarks.get(entry.id);
+        const movesDown =
+          current.parentId === parentId && current.index! < entry.index;
+        const moved = await browser.bookmarks.move(entry.id, {
+          parentId,
+          index: entry.index,
+        });
+        // NOTE: Moving down within its folder, the index may be counted with
+        //       the bookmark still in place and it lands one short of it
+        if (movesDown && moved.index === entry.index - 1) {
+          await browser.bookmarks.move(entry.id, {
+            parentId,
+            index: entry.index + 1,
+          });
+        }
+        break;
+      }
+      case "bookmark-removed": {
+        const restored = await browser.bookmarks.create({
+          parentId: restoredIds.get(entry.parentId) ?? entry.parentId,
+          title: entry.title,
+          ...(entry.url && { url: entry.url }),
+          ...(entry.index !== null && { index: entry.index }),
+        });
+        restoredIds.set(entry.id, restored.id);
+        await this._ownership.ownBookmark(restored.id);
+        break;
+      }
+      case "tab-created": {
+        const tab = await browser.tabs.get(entry.tabId);
+        if (!tab.active) await browser.tabs.remove(entry.tabId);
+        break;
+      }
+      case "tab-closed": {
+        const group = await chrome.tabGroups
+          .get(entry.groupId)
+          .catch(() => null);
+        const tab = await chrome.tabs.create({
+          url: entry.url,
+          active: false,
+          ...(group && { windowId: group.windowId }),
+        });
+        if (tab.id === undefined) break;
+
+        await this._ownership.ownTab(tab.id, entry.url, entry.kind);
+        if (group) {
+          await chrome.tabs.group({ tabIds: [tab.id], groupId: group.id });
+        }
+        break;
+      }
+      case "tab-ungrouped":
+        await chrome.tabs.group({
+          tabIds: [entry.tabId],
+          groupId: entry.groupId,
+        });
+        await this._ownership.ownTab(entry.tabId, entry.url, "pull-request");
+        break;
+      case "tab-moved": {
+        const tab = await chrome.tabs.move(entry.tabId, { index: entry.index });
+        if (tab.groupId !== entry.groupId) {
+          await chrome.tabs.group({
+            tabIds: [entry.tabId],
+            groupId: entry.groupId,
+          });
+        }
+        break;
+      }
+    }
+  }
+}
@@ -1,33 +1,215 @@
-import { type PullRequest } from "./github-handler";
+import { type HeaderLink } from "./config-handler";
+import { type NamedPullRequest } from "./pr-name-template";
+import { type SyncJournalHandler } from "./sync-journal-handler";
+import { type OwnedTab, type OwnershipHandler } from "./ownership-handler";
 
 export type TabGroupColor = chrome.tabGroups.ColorEnum;
 
+type ManagedGroup = {
+  baseTitle: string;
+};
+
 export class TabGroupHandler {
   private readonly _debug: boolean;
-  private _currentGroupId: number | null = null;
+  private readonly _journal: SyncJournalHandler;
+  private readonly _ownership: OwnershipHandler;
+  // NOTE: One entry per live folder definition, keyed by tab group id
+  private _groups = new Map<number, ManagedGroup>();
   private _listenerSetup = false;
   private _groupListenerSetup = false;
-  private _resetTitleTimer: NodeJS.Timeout | null = null;
-  private _baseTitle: string = "";
-
-  constructor({ debug }: { debug: boolean }) {
+  private _hosts: string[] = ["github.com"];
+
+  // NOTE: Tabs used within this window are never closed by a sync
+  private readonly _RECENT_USE_WINDOW = 10 * 60 * 1000;
+
+  constructor(
+    journal: SyncJournalHandler,
+    ownership: OwnershipHandler,
+    { debug }: { debug: boolean },
+  ) {
+    this._journal = journal;
+    this._ownership = ownership;
     this._debug = debug;
   }
 
-  private async _ungroupAndPositionAfterGroup(tabId: number) {
-    try {
-      if (this._currentGroupId === null) return;
+  public setHosts(hosts: string[]) {
+    this._hosts = hosts;
+  }
 
-      // Get all tabs in the group to find the position
-      const groupTabs = await chrome.tabs.query({
-        groupId: this._currentGroupId,
+  private _isPrUrl(url: string) {
+    return isPullRequestUrl(url, this._hosts);
+  }
+
+  private _trackGroup(groupId: number, baseTitle: string) {
+    const group = this._groups.get(groupId);
+    if (group) {
+      group.baseTitle = baseTitle;
+    } else {
+      this._groups.set(groupId, { baseTitle });
+    }
+  }
+
+  /**
+   * Opens the missing header links and moves them to the start of the
+   * group, closes the ones which were removed from the settings. Returns
+   * the header tabs in order.
+   */
+  private async _syncHeaderTabs({
+    groupId,
+    tabs,
+    ownedTabs,
+    headerLinks,
+  }: {
+    groupId: number;
+    tabs: chrome.tabs.Tab[];
+    ownedTabs: Map<number, OwnedTab>;
+    headerLinks: HeaderLink[];
+  }) {
+    // NOTE: Matched by the url they were opened with, pages may redirect
+    const headerTabs = new Map(
+      tabs
+        .filter((tab) => ownedTabs.get(tab.id!)?.kind === "header")
+        .map((tab) => [ownedTabs.get(tab.id!)!.url, tab.id!]),
+    );
+    const headerTabIds: number[] = [];
+
+    for (const link of headerLinks) {
+      const existingId = headerTabs.get(link.url);
+      if (existingId !== undefined) {
+        headerTabIds.push(existingId);
+        headerTabs.delete(link.url);
+        continue;
+      }
+
+      const group = await chrome.tabGroups.get(groupId);
+      const tab = await chrome.tabs.create({
+        windowId: group.windowId,
+        url: link.url,
+        active: false,
+      });
+      if (tab.id === undefined) continue;
+
+      await this._ownership.ownTab(tab.id, link.url, "header");
+      await chrome.tabs.group({ tabIds: [tab.id], groupId });
+      this._journal.record({
+        type: "tab-created",
+        tabId: tab.id,
+        url: link.url,
+      });
+      headerTabIds.push(tab.id);
+    }
+
+    for (const [url, removedId] of headerTabs) {
+      await chrome.tabs.remove(removedId);
+      this._journal.record({
+        type: "tab-closed",
+        groupId,
+        url,
+        kind: "header",
+      });
+    }
+
+    if (headerTabIds.length > 0) {
+      const groupTabs = (await chrome.tabs.query({ groupId })).sort(
+        (a, b) => a.index - b.index,
+      );
+      const inPlace = headerTabIds.every(
+        (tabId, index) => groupTabs[index]?.id === tabId,
+      );
+      if (inPlace) return headerTabIds;
+
+      for (const tab of groupTabs) {
+        if (!headerTabIds.includes(tab.id!)) continue;
+        this._journal.record({
+          type: "tab-moved",
+          tabId: tab.id!,
+          groupId,
+          index: tab.index,
+        });
+      }
+      await chrome.tabs.move(headerTabIds, { index: groupTabs[0].index });
+      // NOTE: Moving to the edge of the group may take the tabs out of it
+      await chrome.tabs.group({ tabIds: headerTabIds, groupId });
+    }
+    return headerTabIds;
+  }
+
+  /**
+   * Moves the PR tabs of the group into the order of `urls`, within the
+   * positions they take up already. Tabs in place aren't moved.
+   */
+  private async _orderTabs(groupId: number, urls: string[]) {
+    const positions = new Map(urls.map((url, index) => [url, index]));
+    const tabs = await chrome.tabs.query({ groupId });
+    const ownedTabs = await this._ownership.getOwnedTabs(tabs);
+    const current = tabs
+      .filter(
+        (tab) =>
+          ownedTabs.get(tab.id!)?.kind === "pull-request" &&
+          tab.url &&
+          positions.has(tab.url),
+      )
+      .sort((a, b) => a.index - b.index);
+    const desired = [...current].sort(
+      (a, b) => positions.get(a.url!)! - positions.get(b.url!)!,
+    );
+
+    let moved = 0;
+    for (const [index, tab] of desired.entries()) {
+      if (current[index] === tab) continue;
+
+      // NOTE: Always moved left, in front of the tab holding its position
+      const target = await chrome.tabs.get(current[index].id!);
+      const moving = await chrome.tabs.get(tab.id!);
+      const movedTab = await chrome.tabs.move(tab.id!, {
+        index: target.index,
       });
+      this._journal.record({
+        type: "tab-moved",
+        tabId: tab.id!,
+        groupId,
+        index: moving.index,
+      });
+      if (movedTab.groupId !== groupId) {
+        await chrome.tabs.group({ tabIds: [tab.id!], groupId });
+      }
+      current.splice(current.indexOf(tab), 1);
+      current.splice(index, 0, tab);
+      moved++;
+    }
+
+    if (this._debug && moved > 0)
+      console.log("[SYNC-TABS] Reordered", moved, "tabs");
+  }
+
+  // NOTE: lastAccessed is also set for the tabs the sync opened in the
+  //       background, only the visits the user made count
+  private _isRecentlyUsed(tab: chrome.tabs.Tab, lastVisited: number | null) {
+    return (
+      tab.active ||
+      (lastVisited !== null &&
+        Date.now() - lastVisited < this._RECENT_USE_WINDOW)
+    );
+  }
+
+  private async _ungroupAndPositionAfterGroup(tabId: number, groupId: number) {
+    try {
+      // Get all tabs in the group to find the position
+      const groupTabs = await chrome.tabs.query({ groupId });
 
       // Find the highest index (last position in the group)
       const maxIndex = Math.max(...groupTabs.map((t) => t.index || 0));
 
-      // Ungroup the tab
+      // Ungroup the tab, it's the user's from now on
+      const { url } = await chrome.tabs.get(tabId);
       await chrome.tabs.ungroup(tabId);
+      await this._ownership.disownTab(tabId);
+      this._journal.record({
+        type: "tab-ungrouped",
+        tabId,
+        groupId,
+        url: url ?? "",
+      });
 
       // Move it to right after the group
       await chrome.tabs.move(tabId, { index: maxIndex + 1 });
@@ -49,13 +231,23 @@ export class TabGroupHandler {
   public async syncTabs({
     groupId,
     pullRequests,
-    previousPrCount,
+    headerLinks,
+    newCount,
+    updatedCount,
+    allowRemovals,
+    applyOrder,
+    lastVisits,
   }: {
     groupId: number;
-    pullRequests: Array<PullRequest>;
+    pullRequests: Array<NamedPullRequest>;
+    headerLinks: HeaderLink[];
     prNameFormat: string;
-    formatPrName: (args: { pr: PullRequest; format: string }) => string;
-    previousPrCount: number;
+    formatPrName: (args: { pr: NamedPullRequest; format: string }) => string;
+    newCount: number; // PRs not opened yet
+    updatedCount: number; // PRs updated since they were last opened
+    applyOrder: boolean; // move the PR tabs into the order of pullRequests
+    allowRemovals: boolean;
+    lastVisits: Map<string, number>; // when the user last opened a PR, by url
   }): Promise<boolean> {
     try {
       if (this._debug) {
@@ -77,8 +269,7 @@ export class TabGroupHandler {
         return false;
       }
 
-      // Update current group ID
-      this._currentGroupId = groupId;
+      const managedGroup = this._groups.get(groupId);
 
       // Check for ungrouped tabs that match PR URLs and group them
       // This handles the case where tabs were created but failed to group (e.g., after sleep)
@@ -90,11 +281,15 @@ export class TabGroupHandler {
         windowId: currentWindow.id,
       });
       const prUrls = new Set(pullRequests.map((pr) => pr.url));
-      const ungroupedPrTabs = allWindowTabs.filter(
+      const ungroupedTabs = allWindowTabs.filter(
+        (tab) => tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE,
+      );
+      // NOTE: Only tabs the extension opened, the user's own PR tabs stay put
+      const ungroupedOwnedTabs =
+        await this._ownership.getOwnedTabs(ungroupedTabs);
+      const ungroupedPrTabs = ungroupedTabs.filter(
         (tab) =>
-          tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE &&
-          tab.url &&
-          prUrls.has(tab.url),
+          tab.url && prUrls.has(tab.url) && ungroupedOwnedTabs.has(tab.id!),
       );
 
       // Group any ungrouped PR tabs
@@ -126,9 +321,17 @@ export class TabGroupHandler {
 
       // Get all tabs in the group
       const tabs = await chrome.tabs.query({ groupId });
+      const ownedTabs = await this._ownership.getOwnedTabs(tabs);
       const existingUrls = new Map(tabs.map((tab) => [tab.url, tab]));
       const processedUrls = new Set<string>();
 
+      const headerTabIds = await this._syncHeaderTabs({
+        groupId,
+        tabs,
+        ownedTabs,
+        headerLinks,
+      });
+
       // Add or update tabs for each PR
       for (const pr of pullRequests) {
         if (existingUrls.has(pr.url)) {
@@ -144,10 +347,11 @@ export class TabGroupHandler {
           });
 
           if (newTab.id) {
+            await this._ownership.ownTab(newTab.id, pr.url, "pull-request");
+
             // Wait for tab URL to load and validate it's still a PR URL
             const finalUrl = await this._waitForTabUrl(newTab.id, 2000);
-            const isPrUrl =
-              finalUrl.includes("github.com") && finalUrl.includes("/pull/");
+            const isPrUrl = this._isPrUrl(finalUrl);
 
             if (!isPrUrl) {
               // Tab redirected to non-PR URL (likely SSO login page) - remove it
@@ -170,6 +374,11 @@ export class TabGroupHandler {
                 tabIds: [newTab.id],
                 groupId,
               });
+              this._journal.record({
+                type: "tab-created",
+                tabId: newTab.id,
+                url: pr.url,
+              });
               if (this._debug) {
                 console.log("[SYNC-TABS] Successfully grouped tab:", pr.url);
               }
@@ -198,8 +407,12 @@ export class TabGroupHandler {
         }
       }
 
-      // Remove tabs that no longer have PRs
+      // Remove tabs that no longer have PRs, unless the PR list is partial.
+      // Tabs the user added to the group are theirs to close.
       const tabsToRemove = tabs.filter((tab) => {
+        if (!allowRemovals) return false;
+        if (ownedTabs.get(tab.id!)?.kind !== "pull-request") return false;
+
         // Remove if it's not in our current PR list (but not placeholder tabs yet)
         return (
           tab.url && tab.url !== "about:blank" && !processedUrls.has(tab.url)
@@ -207,16 +420,35 @@ export class TabGroupHandler {
       });
 
       for (const tab of tabsToRemove) {
-        if (tab.id) {
-          await chrome.tabs.remove(tab.id);
+        if (!tab.id) continue;
+
+        // The user may be mid-review, the tab is moved out of the group instead
+        const ownedUrl = ownedTabs.get(tab.id)!.url;
+        if (this._isRecentlyUsed(tab, lastVisits.get(ownedUrl) ?? null)) {
+          await this._ungroupAndPositionAfterGroup(tab.id, groupId);
+          continue;
         }
+        await chrome.tabs.remove(tab.id);
+        this._journal.record({
+          type: "tab-closed",
+          groupId,
+          url: tab.url!,
+          kind: "pull-request",
+        });
+      }
+
+      if (applyOrder) {
+        await this._orderTabs(
+          groupId,
+          pullRequests.map((pr) => pr.url),
+        );
       }
 
       // Re-query tabs to get fresh state including newly created tabs
       const currentTabs = await chrome.tabs.query({ groupId });
 
       // Remove placeholder about:blank tabs only if we have real PR tabs
-      if (pullRequests.length > 0) {
+      if (pullRequests.length > 0 || headerTabIds.length > 0) {
         const placeholderTabs = currentTabs.filter(
           (tab) => tab.url === "about:blank",
         );
@@ -248,9 +480,6 @@ export class TabGroupHandler {
         remainingTabs = await chrome.tabs.query({ groupId });
       }
 
-      // Position the group after pinned tabs
-      await this.positionGroupAfterPinnedTabs(groupId);
-
       // Auto-collapse if empty, but preserve the collapsed state if it has tabs
       if (
         remainingTabs.length === 0 ||
@@ -260,36 +489,29 @@ export class TabGroupHandler {
       }
       // If there are tabs, don't change the collapsed state - let user control it
 
-      // Check if collapsed and has new PRs to show count
+      // NOTE: A collapsed group counts what's waiting for the user, for as
+      //       long as it's waiting. Expanding the group resets the title.
       const tabGroup = await chrome.tabGroups.get(groupId);
-      const currentPrCount = pullRequests.length;
-      const newPrCount = currentPrCount - previousPrCount;
-
-      if (tabGroup.collapsed && newPrCount > 0 && this._baseTitle) {
-        // Clear any existing timer
-        if (this._resetTitleTimer) {
-          clearTimeout(this._resetTitleTimer);
+      if (tabGroup.collapsed && managedGroup) {
+        const counts = [
+          ...(newCount > 0 ? [`${newCount} new`] : []),
+          ...(updatedCount > 0 ? [`${updatedCount} updated`] : []),
+        ];
+        const title =
+          counts.length > 0
+            ? `${managedGroup.baseTitle} (${counts.join(", ")})`
+            : managedGroup.baseTitle;
+        if (tabGroup.title !== title) {
+          await chrome.tabGroups.update(groupId, { title });
+          if (this._debug) console.log("[SYNC-TABS] Group title:", title);
         }
-
-        // Update title with new PR count
-        const titleWithCount = `${this._baseTitle} (${newPrCount} new)`;
-        await chrome.tabGroups.update(groupId, { title: titleWithCount });
-
-        if (this._debug) {
-          console.log(
-            "[SYNC-TABS] Tab group collapsed, showing",
-            newPrCount,
-            "new PRs in title",
-          );
-        }
-
-        // Set timer to reset title after 30 seconds
-        this._resetTitleTimer = setTimeout(async () => {
-          await this._resetTitle();
-        }, 30000);
-      } else if (!tabGroup.collapsed && tabGroup.title !== this._baseTitle) {
+      } else if (
+        !tabGroup.collapsed &&
+        managedGroup &&
+        tabGroup.title !== managedGroup.baseTitle
+      ) {
         // If expanded and the title has changed, reset immediately
-        await this._resetTitle();
+        await this._resetTitle(groupId);
       }
 
       if (this._debug) {
@@ -318,9 +540,6 @@ export class TabGroupHandler {
     groupId?: number;
   }): Promise<number> {
     try {
-      // Store base title
-      this._baseTitle = title;
-
       // Set up listeners if not already done
       this._setupTabListener();
       this._setupTabGroupListener();
@@ -332,7 +551,7 @@ export class TabGroupHandler {
         if (existingByTitle.color !== color) {
           await chrome.tabGroups.update(existingByTitle.id, { color });
         }
-        this._currentGroupId = existingByTitle.id;
+        this._trackGroup(existingByTitle.id, title);
         if (this._debug)
           console.log(
             "[ENSURE-TAB-GROUP] Using existing group by title:",
@@ -349,7 +568,7 @@ export class TabGroupHandler {
           if (existingGroup.title !== title || existingGroup.color !== color) {
             await chrome.tabGroups.update(groupId, { title, color });
           }
-          this._currentGroupId = groupId;
+          this._trackGroup(groupId, title);
           return groupId;
         }
       }
@@ -377,7 +596,7 @@ export class TabGroupHandler {
         collapsed: true,
       });
 
-      this._currentGroupId = newGroupId;
+      this._trackGroup(newGroupId, title);
       if (this._debug)
         console.log("[ENSURE-TAB-GROUP] Created group:", newGroupId);
       return newGroupId;
@@ -409,7 +628,14 @@ export class TabGroupHandler {
     return "";
   }
 
-  public async positionGroupAfterPinnedTabs(groupId: number) {
+  /**
+   * Moves the group right after the pinned tabs, or after the
+   * `precedingTabCount` tabs of the live folder groups before it.
+   */
+  public async positionGroupAfterPinnedTabs(
+    groupId: number,
+    precedingTabCount = 0,
+  ) {
     try {
       const currentWindow = await chrome.windows.getCurrent();
 
@@ -419,7 +645,7 @@ export class TabGroupHandler {
         pinned: true,
       });
 
-      const targetPosition = pinnedTabs.length;
+      const targetPosition = pinnedTabs.length + precedingTabCount;
 
       // Get all tabs in our group
       const groupTabs = await chrome.tabs.query({ groupId });
@@ -533,15 +759,12 @@ export class TabGroupHandler {
 
     // Listen for tab group updates (expanded/collapsed)
     chrome.tabGroups.onUpdated.addListener(async (group) => {
-      if (group.id !== this._currentGroupId) return;
+      const managedGroup = this._groups.get(group.id);
+      if (!managedGroup) return;
 
       // If expanded and title has new PR count, reset to base title
-      if (
-        !group.collapsed &&
-        this._baseTitle &&
-        group.title !== this._baseTitle
-      ) {
-        await this._resetTitle();
+      if (!group.collapsed && group.title !== managedGroup.baseTitle) {
+        await this._resetTitle(group.id);
       }
     });
 
@@ -557,11 +780,12 @@ export class TabGroupHandler {
         windowId: currentWindow.id,
       });
 
-      const ungroupedPrTabs = allWindowTabs.filter(
-        (tab) =>
-          tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE &&
-          tab.url &&
-          prUrls.has(tab.url),
+      const ungroupedTabs = allWindowTabs.filter(
+        (tab) => tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE,
+      );
+      const ownedTabs = await this._ownership.getOwnedTabs(ungroupedTabs);
+      const ungroupedPrTabs = ungroupedTabs.filter(
+        (tab) => tab.url && prUrls.has(tab.url) && ownedTabs.has(tab.id!),
       );
 
       if (ungroupedPrTabs.length > 0) {
@@ -584,23 +808,77 @@ export class TabGroupHandler {
     }
   }
 
-  private async _resetTitle() {
+  /**
+   * Releases the group of a removed live folder definition. PR tabs are
+   * ungrouped instead of closed, as the user may still be reviewing them.
+   */
+  public async removeTabGroup(groupId: number) {
     try {
-      if (this._currentGroupId === null || !this._baseTitle) return;
+      this._groups.delete(groupId);
+
+      if (!(await this.getTabGroup(groupId))) return;
 
-      // Clear any pending timer
-      if (this._resetTitleTimer) {
-        clearTimeout(this._resetTitleTimer);
-        this._resetTitleTimer = null;
+      const tabs = await chrome.tabs.query({ groupId });
+      const placeholderTabIds = tabs
+        .filter((tab) => tab.url === "about:blank")
+        .map((tab) => tab.id)
+        .filter((id): id is number => id !== undefined);
+      const prTabIds = tabs
+        .filter((tab) => tab.url !== "about:blank")
+        .map((tab) => tab.id)
+        .filter((id): id is number => id !== undefined);
+
+      if (prTabIds.length > 0) await chrome.tabs.ungroup(prTabIds);
+      if (placeholderTabIds.length > 0)
+        await chrome.tabs.remove(placeholderTabIds);
+
+      if (this._debug) console.log("[REMOVE-TAB-GROUP] Removed", groupId);
+    } catch (error) {
+      console.error("[REMOVE-TAB-GROUP] Error removing tab group:", error);
+    }
+  }
+
+  /**
+   * Expands the group and activates its first pull request tab.
+   */
+  public async focusTabGroup(groupId: number) {
+    try {
+      const group = await chrome.tabGroups.update(groupId, {
+        collapsed: false,
+      });
+      const tabs = await chrome.tabs.query({ groupId });
+      const tab = tabs.find((tab) => tab.url !== "about:blank") ?? tabs[0];
+      if (tab?.id !== undefined) {
+        await chrome.tabs.update(tab.id, { active: true });
       }
+      if (group) await chrome.windows.update(group.windowId, { focused: true });
+
+      if (this._debug) console.log("[FOCUS-TAB-GROUP]", groupId);
+    } catch (error) {
+      console.error("[FOCUS-TAB-GROUP] Error focusing tab group:", error);
+    }
+  }
+
+  public async getGroupTabCount(groupId: number) {
+    try {
+      return (await chrome.tabs.query({ groupId })).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async _resetTitle(groupId: number) {
+    try {
+      const managedGroup = this._groups.get(groupId);
+      if (!managedGroup?.baseTitle) return;
 
       // Reset to base title
-      await chrome.tabGroups.update(this._currentGroupId, {
-        title: this._baseTitle,
+      await chrome.tabGroups.update(groupId, {
+        title: managedGroup.baseTitle,
       });
 
       if (this._debug) {
-        console.log("[RESET-TITLE] Title reset to:", this._baseTitle);
+        console.log("[RESET-TITLE] Title reset to:", managedGroup.baseTitle);
       }
     } catch (error) {
       console.error("[RESET-TITLE] Error resetting title:", error);
@@ -611,56 +889,32 @@ export class TabGroupHandler {
     if (this._listenerSetup) return;
 
     // Listen for tab URL changes (when navigating within an existing tab)
-    chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+    chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
       // Only process when URL changes
       if (!changeInfo.url) return;
-      if (this._currentGroupId === null) return;
+      // Check if this tab is in one of our PR groups
+      if (!this._groups.has(tab.groupId)) return;
 
-      // Check if this tab is in our PR group
-      if (tab.groupId !== this._currentGroupId) return;
+      // Header links and the tabs of the user may go anywhere
+      const owned = await this._ownership.getOwnedTab(tabId);
+      if (owned?.kind !== "pull-request") return;
 
       const url = changeInfo.url;
 
       // Check if the new URL is a GitHub PR URL
-      const isPrUrl = url.includes("github.com") && url.includes("/pull/");
+      const isPrUrl = this._isPrUrl(url);
 
       if (!isPrUrl) {
         // Tab navigated away from PR, then ungroup and position the tab after the group
-        void this._ungroupAndPositionAfterGroup(tabId);
+        void this._ungroupAndPositionAfterGroup(tabId, tab.groupId);
+      } else if (owned.url !== url) {
+        // Followed, so it's found again by its url after a restart
+        await this._ownership.ownTab(tabId, url, "pull-request");
       }
     });
 
-    // Listen for new tabs created in the group (e.g., Cmd/Ctrl+click)
-    chrome.tabs.onCreated.addListener((tab) => {
-      if (this._currentGroupId === null) return;
-
-      // Check if this new tab is in our PR group
-      if (tab.groupId !== this._currentGroupId) return;
-
-      // Give the tab a moment to load and get its URL
-      setTimeout(() => {
-        chrome.tabs
-          .get(tab.id!)
-          .then((updatedTab) => {
-            const url = updatedTab.url || "";
-
-            // Check if the URL is a GitHub PR URL
-            const isPrUrl =
-              url.includes("github.com") && url.includes("/pull/");
-
-            if (!isPrUrl && url !== "about:blank") {
-              // The new tab is not a PR, ungroup and position it after the group
-              void this._ungroupAndPositionAfterGroup(updatedTab.id!);
-            }
-          })
-          .catch((error) => {
-            // Tab might have been closed already
-            if (this._debug) {
-              console.log("[TAB-LISTENER] Could not get tab info:", error);
-            }
-          });
-      }, 100); // Small delay to let the tab URL populate
-    });
+    // NOTE: Tabs created in a group, e.g. with Cmd/Ctrl+click or "New tab in
+    //       group", are the user's and stay where they were put
 
     this._listenerSetup = true;
     if (this._debug) console.log("[TAB-LISTENER] Tab listeners set up");
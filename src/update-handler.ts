@@ -0,0 +1,36 @@
+import { type Runtime } from "webextension-polyfill";
+
+// NOTE: Pages listing pull requests connect a port with this name to be told
+//       when the list changed, instead of polling the background
+export const PULL_REQUEST_UPDATES_PORT = "pull-request-updates";
+
+export class UpdateHandler {
+  private readonly _debug: boolean;
+  private readonly _ports = new Set<Runtime.Port>();
+
+  constructor({ debug }: { debug: boolean }) {
+    this._debug = debug;
+
+    browser.runtime.onConnect.addListener((port) => {
+      if (port.name !== PULL_REQUEST_UPDATES_PORT) return;
+
+      this._ports.add(port);
+      port.onDisconnect.addListener(() => this._ports.delete(port));
+    });
+  }
+
+  /**
+   * Tells the connected pages to reload the pull requests.
+   */
+  public notifyPullRequestsChanged() {
+    for (const port of this._ports) {
+      try {
+        port.postMessage({ type: "pull-requests-changed" });
+      } catch (error) {
+        // The page was closed without disconnecting
+        this._ports.delete(port);
+        if (this._debug) console.log("[UPDATES] Dropped port:", error);
+      }
+    }
+  }
+}
@@ -29,3 +29,46 @@ export async function tryCatch<T, E = Error>(
 export type Prettify<T> = {
   [K in keyof T]: T[K];
 } & {};
+
+/**
+ * Turns user input like "https://github.example.com/" into a bare host name.
+ */
+export function normalizeGithubHost(input: string) {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/\/.*$/, "");
+}
+
+/**
+ * Match pattern used to request and check the host permission of a GitHub host.
+ */
+export function getHostOrigin(host: string) {
+  return `*://${host}/*`;
+}
+
+export function isPullRequestUrl(url: string, hosts: string[]) {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return (
+      hosts.includes(hostname) && /^\/[^/]+\/[^/]+\/pull\/\d+/.test(pathname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Strips sub pages like "/files" and fragments from a pull request url, so it
+ * matches the url the pull request is tracked by.
+ */
+export function getPullRequestBaseUrl(url: string) {
+  try {
+    const { protocol, hostname, pathname } = new URL(url);
+    const match = /^\/[^/]+\/[^/]+\/pull\/\d+/.exec(pathname);
+    return match ? `${protocol}//${hostname}${match[0]}` : null;
+  } catch {
+    return null;
+  }
+}
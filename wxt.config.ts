@@ -4,7 +4,7 @@ import { defineConfig } from "wxt";
 export default defineConfig({
   extensionApi: "webextension-polyfill",
   modules: ["@wxt-dev/module-react"],
-  manifest: {
+  manifest: ({ manifestVersion }) => ({
     browser_specific_settings: {
       gecko: {
         id: "lf@devsor.us",
@@ -17,9 +17,46 @@ export default defineConfig({
       "cookies",
       "tabs",
       "tabGroups",
+      "notifications",
+      "contextMenus",
     ],
+    // NOTE: Handled by src/omnibox-handler.ts
+    omnibox: {
+      keyword: "pr",
+    },
+    // NOTE: Handled by src/command-handler.ts, shortcuts can be changed in the
+    //       browser's extension shortcut settings
+    commands: {
+      "sync-now": {
+        suggested_key: { default: "Alt+Shift+S" },
+        description: "Sync the live folders now",
+      },
+      "open-next-pull-request": {
+        suggested_key: { default: "Alt+Shift+J" },
+        description: "Open the next pull request in the queue",
+      },
+      "open-previous-pull-request": {
+        suggested_key: { default: "Alt+Shift+K" },
+        description: "Open the previous pull request in the queue",
+      },
+      // Tab groups only exist in Chrome (manifest v3 builds)
+      ...(manifestVersion === 3 && {
+        "focus-live-folder": {
+          suggested_key: { default: "Alt+Shift+L" },
+          description: "Focus and expand the live tab group",
+        },
+      }),
+      "snooze-pull-request": {
+        description:
+          "Snooze the current pull request until it's updated or tomorrow",
+      },
+    },
     host_permissions: ["*://*.github.com/*"],
-  },
+    // NOTE: GitHub Enterprise Server hosts are requested at runtime
+    ...(manifestVersion === 2
+      ? { optional_permissions: ["*://*/*"] }
+      : { optional_host_permissions: ["*://*/*"] }),
+  }),
   imports: {
     eslintrc: {
       enabled: 9,